@@ -0,0 +1,126 @@
+import {
+  AbortError,
+  delay,
+  findAsync,
+  isAbortError,
+  raceWithAbortSignal,
+  reduceAsync,
+  retry,
+  runParallel,
+  runSequential,
+  timeout,
+} from '~/async';
+
+describe('[abort]: cancel async helpers via AbortSignal', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should reject delay immediately when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(delay(100, { signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+  });
+
+  it('should clear the delay timer when aborted', async () => {
+    const controller = new AbortController();
+
+    const promise = delay(100, { signal: controller.signal });
+    controller.abort('stop');
+
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError', cause: 'stop' });
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('should stop runSequential from scheduling further items', async () => {
+    const controller = new AbortController();
+    const fn = vi.fn(async (item: number) => {
+      if (item === 2) {
+        controller.abort();
+      }
+
+      return item;
+    });
+
+    await expect(
+      runSequential([1, 2, 3, 4], fn, { signal: controller.signal }),
+    ).rejects.toBeInstanceOf(AbortError);
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reject runParallel as soon as the signal fires', async () => {
+    const controller = new AbortController();
+
+    const promise = runParallel([1, 2], item => delay(100).then(() => item), {
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(AbortError);
+  });
+
+  it('should stop reduceAsync and findAsync when aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      reduceAsync([1, 2], async (acc, item) => acc + item, 0, { signal: controller.signal }),
+    ).rejects.toBeInstanceOf(AbortError);
+
+    await expect(
+      findAsync([1, 2], async () => true, { signal: controller.signal }),
+    ).rejects.toBeInstanceOf(AbortError);
+  });
+
+  it('should stop retry attempts and clear the pending backoff delay', async () => {
+    const controller = new AbortController();
+    const task = vi.fn(async () => {
+      throw new Error('Failure');
+    });
+
+    const promise = retry(task, { maxAttempts: 5, delayMs: 1000, signal: controller.signal })();
+    const assertion = expect(promise).rejects.toBeInstanceOf(AbortError);
+
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    await assertion;
+
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('should reject timeout with an abort error instead of a timeout error', async () => {
+    const controller = new AbortController();
+
+    const promise = timeout(delay(1000), 500, { signal: controller.signal });
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(AbortError);
+  });
+
+  it('should keep the promise rejection handled when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const promise = Promise.reject(new Error('Failure'));
+    const catchSpy = vi.spyOn(promise, 'catch');
+
+    await expect(raceWithAbortSignal(promise, controller.signal)).rejects.toBeInstanceOf(
+      AbortError,
+    );
+    expect(catchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should detect native abort errors', () => {
+    expect(isAbortError(new AbortError())).toBe(true);
+    expect(isAbortError(new DOMException('Aborted', 'AbortError'))).toBe(true);
+    expect(isAbortError(new Error('Failure'))).toBe(false);
+  });
+});
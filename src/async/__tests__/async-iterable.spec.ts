@@ -0,0 +1,167 @@
+import {
+  AbortError,
+  asyncIterableToReadableStream,
+  chunkAsyncIterable,
+  collectAsyncIterable,
+  delay,
+  filterAsyncIterable,
+  findAsyncIterable,
+  isAsyncIterable,
+  mapAsyncIterable,
+  readableStreamToAsyncIterable,
+  reduceAsyncIterable,
+  toAsyncIterable,
+} from '~/async';
+
+describe('[async iterable]: streaming async helpers', () => {
+  async function* generateNumbers(count: number) {
+    for (let i = 1; i <= count; i++) {
+      yield i;
+    }
+  }
+
+  it('should detect async iterables', () => {
+    expect(isAsyncIterable(generateNumbers(1))).toBe(true);
+    expect(isAsyncIterable([1, 2])).toBe(false);
+    expect(isAsyncIterable(null)).toBe(false);
+  });
+
+  it('should convert arrays to async iterables and collect them back', async () => {
+    const iterable = toAsyncIterable([1, 2, 3]);
+
+    expect(isAsyncIterable(iterable)).toBe(true);
+    expect(await collectAsyncIterable(iterable)).toStrictEqual([1, 2, 3]);
+  });
+
+  it('should map items sequentially by default', async () => {
+    const order: string[] = [];
+
+    const results = mapAsyncIterable(generateNumbers(3), async item => {
+      order.push(`start ${item}`);
+
+      await delay(1);
+
+      order.push(`end ${item}`);
+
+      return item * 2;
+    });
+
+    expect(await collectAsyncIterable(results)).toStrictEqual([2, 4, 6]);
+    expect(order).toStrictEqual(['start 1', 'end 1', 'start 2', 'end 2', 'start 3', 'end 3']);
+  });
+
+  it('should map with bounded concurrency preserving order', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    const results = mapAsyncIterable(
+      [30, 10, 20, 5, 1],
+      async item => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+
+        await delay(item);
+
+        running--;
+
+        return item;
+      },
+      { concurrency: 2 },
+    );
+
+    expect(await collectAsyncIterable(results)).toStrictEqual([30, 10, 20, 5, 1]);
+    expect(maxRunning).toBe(2);
+  });
+
+  it('should filter items', async () => {
+    const results = filterAsyncIterable(generateNumbers(5), async item => item % 2 === 1);
+
+    expect(await collectAsyncIterable(results)).toStrictEqual([1, 3, 5]);
+  });
+
+  it('should chunk items', async () => {
+    expect(await collectAsyncIterable(chunkAsyncIterable(generateNumbers(5), 2))).toStrictEqual([
+      [1, 2],
+      [3, 4],
+      [5],
+    ]);
+  });
+
+  it('should reduce items', async () => {
+    expect(await reduceAsyncIterable(generateNumbers(4), async (acc, item) => acc + item, 0)).toBe(
+      10,
+    );
+  });
+
+  it('should find the first matching item and stop iterating', async () => {
+    const source = generateNumbers(100);
+    const predicate = vi.fn(async (item: number) => item === 3);
+
+    expect(await findAsyncIterable(source, predicate)).toBe(3);
+    expect(predicate).toHaveBeenCalledTimes(3);
+    expect(await findAsyncIterable(generateNumbers(2), predicate)).toBeNull();
+  });
+
+  it('should stop iterating when aborted', async () => {
+    const controller = new AbortController();
+
+    const results = mapAsyncIterable(
+      generateNumbers(5),
+      async item => {
+        if (item === 2) {
+          controller.abort();
+        }
+
+        return item;
+      },
+      { signal: controller.signal },
+    );
+
+    await expect(collectAsyncIterable(results)).rejects.toBeInstanceOf(AbortError);
+  });
+
+  it('should convert between readable streams and async iterables', async () => {
+    const stream = asyncIterableToReadableStream(generateNumbers(3));
+
+    expect(await collectAsyncIterable(readableStreamToAsyncIterable(stream))).toStrictEqual([
+      1, 2, 3,
+    ]);
+  });
+
+  it('should cancel the stream when iteration stops early', async () => {
+    const cancel = vi.fn();
+
+    const stream = new ReadableStream<number>({
+      start: controller => {
+        controller.enqueue(1);
+        controller.enqueue(2);
+      },
+      cancel,
+    });
+
+    expect(
+      await findAsyncIterable(readableStreamToAsyncIterable(stream), async item => item === 1),
+    ).toBe(1);
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  it('should pass the original read error to the consumer and release the lock', async () => {
+    const cancel = vi.fn();
+
+    const stream = new ReadableStream<number>({
+      start: controller => {
+        controller.enqueue(1);
+      },
+      pull: controller => {
+        controller.error(new Error('Read failure'));
+      },
+      cancel,
+    });
+
+    await expect(collectAsyncIterable(readableStreamToAsyncIterable(stream))).rejects.toThrow(
+      'Read failure',
+    );
+    expect(cancel).not.toHaveBeenCalled();
+    expect(stream.locked).toBe(false);
+  });
+});
@@ -0,0 +1,46 @@
+import { createDeferred } from '~/async';
+
+describe('[createDeferred]: externally settled promises', () => {
+  it('should resolve the promise and update the status', async () => {
+    const deferred = createDeferred<string>();
+
+    expect(deferred.status).toBe('pending');
+    expect(deferred.isSettled).toBe(false);
+
+    deferred.resolve('apple');
+
+    expect(deferred.status).toBe('fulfilled');
+    expect(deferred.isSettled).toBe(true);
+    await expect(deferred.promise).resolves.toBe('apple');
+  });
+
+  it('should reject the promise and update the status', async () => {
+    const deferred = createDeferred();
+
+    deferred.reject(new Error('Failure'));
+
+    expect(deferred.status).toBe('rejected');
+    await expect(deferred.promise).rejects.toThrow('Failure');
+  });
+
+  it('should ignore calls after the first settlement', async () => {
+    const deferred = createDeferred<string>();
+
+    deferred.resolve('apple');
+    deferred.resolve('pear');
+    deferred.reject(new Error('Failure'));
+
+    expect(deferred.status).toBe('fulfilled');
+    await expect(deferred.promise).resolves.toBe('apple');
+  });
+
+  it('should follow the outcome when resolved with a promise', async () => {
+    const deferred = createDeferred<string>();
+
+    deferred.resolve(Promise.reject(new Error('Failure')));
+
+    expect(deferred.status).toBe('pending');
+    await expect(deferred.promise).rejects.toThrow('Failure');
+    expect(deferred.status).toBe('rejected');
+  });
+});
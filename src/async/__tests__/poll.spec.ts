@@ -0,0 +1,124 @@
+import { AbortError, PollTimeoutError, isPollTimeoutError, isTimeoutError, poll } from '~/async';
+
+describe('[poll]: poll until a condition is satisfied', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createStatusTask = (doneAtAttempt: number) =>
+    vi.fn(async (attempt: number) => ({
+      status: attempt >= doneAtAttempt ? 'done' : 'running',
+    }));
+
+  it('should resolve with the first value satisfying the predicate', async () => {
+    const task = createStatusTask(3);
+    const onTick = vi.fn();
+
+    const promise = poll(task, {
+      until: job => job.status === 'done',
+      intervalMs: 100,
+      onTick,
+    });
+
+    await vi.runAllTimersAsync();
+
+    await expect(promise).resolves.toStrictEqual({ status: 'done' });
+    expect(task).toHaveBeenCalledTimes(3);
+    expect(onTick).toHaveBeenCalledTimes(3);
+    expect(onTick).toHaveBeenLastCalledWith({ status: 'done' }, 3);
+  });
+
+  it('should use fixed intervals by default', async () => {
+    const task = createStatusTask(3);
+
+    poll(task, { until: job => job.status === 'done', intervalMs: 100 });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(task).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(task).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('should grow intervals exponentially with backoff', async () => {
+    const task = createStatusTask(3);
+
+    poll(task, { until: job => job.status === 'done', intervalMs: 100, backoff: true });
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(task).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(task).toHaveBeenCalledTimes(2);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('should reject with a PollTimeoutError when the deadline passes', async () => {
+    const task = createStatusTask(Infinity);
+
+    const promise = poll(task, {
+      until: job => job.status === 'done',
+      intervalMs: 100,
+      timeoutMs: 250,
+    });
+    const assertion = expect(promise).rejects.toBeInstanceOf(PollTimeoutError);
+
+    await vi.runAllTimersAsync();
+    await assertion;
+
+    const error = await promise.catch(e => e);
+
+    expect(isPollTimeoutError(error)).toBe(true);
+    expect(isTimeoutError(error)).toBe(true);
+    expect(error).toMatchObject({ attempts: 3, lastValue: { status: 'running' } });
+  });
+
+  it('should time out a task still running at the deadline', async () => {
+    const task = vi.fn(() => new Promise<string>(() => {}));
+
+    const promise = poll(task, { until: () => true, timeoutMs: 500 });
+    const assertion = expect(promise).rejects.toMatchObject({ attempts: 0 });
+
+    await vi.advanceTimersByTimeAsync(500);
+    await assertion;
+  });
+
+  it('should stop polling when aborted', async () => {
+    const controller = new AbortController();
+    const task = createStatusTask(Infinity);
+
+    const promise = poll(task, {
+      until: job => job.status === 'done',
+      intervalMs: 100,
+      signal: controller.signal,
+    });
+    const assertion = expect(promise).rejects.toBeInstanceOf(AbortError);
+
+    await vi.advanceTimersByTimeAsync(50);
+    controller.abort();
+
+    await assertion;
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('should reject with the task error', async () => {
+    const promise = poll(
+      async () => {
+        throw new Error('Failure');
+      },
+      { until: () => true },
+    );
+
+    await expect(promise).rejects.toThrow('Failure');
+  });
+});
@@ -0,0 +1,127 @@
+import { BatchError, delay, everyPool, filterPool, findPool, runPool, somePool } from '~/async';
+
+describe('[runPool]: run async tasks with bounded concurrency', () => {
+  const trackConcurrency = () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    const fn = async (item: number) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+
+      await delay(item);
+
+      running--;
+
+      return item * 2;
+    };
+
+    return { fn, getMaxRunning: () => maxRunning };
+  };
+
+  it('should never exceed the concurrency limit', async () => {
+    const { fn, getMaxRunning } = trackConcurrency();
+
+    await runPool([5, 1, 3, 2, 4, 1], fn, { concurrency: 2 });
+
+    expect(getMaxRunning()).toBe(2);
+  });
+
+  it('should preserve result order regardless of completion order', async () => {
+    const { fn } = trackConcurrency();
+
+    const results = await runPool([15, 1, 8, 2], fn, { concurrency: 3 });
+
+    expect(results).toStrictEqual([30, 2, 16, 4]);
+  });
+
+  it('should resolve with an empty array for empty input', async () => {
+    expect(await runPool([], async () => 1, { concurrency: 2 })).toStrictEqual([]);
+  });
+
+  it('should throw when concurrency is lower than 1', async () => {
+    await expect(runPool([1], async () => 1, { concurrency: 0 })).rejects.toThrow(
+      'Concurrency must be greater than or equal to 1',
+    );
+  });
+
+  it('should stop scheduling tasks after the first error by default', async () => {
+    const fn = vi.fn(async (item: number) => {
+      if (item === 2) {
+        throw new Error('Failure');
+      }
+
+      return item;
+    });
+
+    await expect(runPool([1, 2, 3, 4], fn, { concurrency: 1 })).rejects.toThrow('Failure');
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should collect all failures when stopOnError is disabled', async () => {
+    const fn = vi.fn(async (item: number) => {
+      if (item % 2 === 0) {
+        throw new Error(`Failure ${item}`);
+      }
+
+      return item;
+    });
+
+    const promise = runPool([1, 2, 3, 4], fn, { concurrency: 2, stopOnError: false });
+
+    await expect(promise).rejects.toBeInstanceOf(BatchError);
+    await expect(promise).rejects.toMatchObject({
+      errors: [new Error('Failure 2'), new Error('Failure 4')],
+      indices: [1, 3],
+    });
+
+    expect(fn).toHaveBeenCalledTimes(4);
+  });
+
+  it('should report progress as tasks settle', async () => {
+    const onProgress = vi.fn();
+
+    await runPool([3, 1], async item => delay(item), { concurrency: 2, onProgress });
+
+    expect(onProgress.mock.calls).toStrictEqual([
+      [{ index: 1, settledCount: 1, total: 2 }],
+      [{ index: 0, settledCount: 2, total: 2 }],
+    ]);
+  });
+});
+
+describe('[filterPool / somePool / everyPool / findPool]: pooled predicates', () => {
+  const isEven = async (item: number) => item % 2 === 0;
+
+  it('should filter items preserving order', async () => {
+    expect(await filterPool([0, 1, 2, 3, 4], isEven, { concurrency: 2 })).toStrictEqual([0, 2, 4]);
+  });
+
+  it('should stop scheduling predicates once some item matches', async () => {
+    const predicate = vi.fn(isEven);
+
+    expect(await somePool([1, 2, 3, 5], predicate, { concurrency: 1 })).toBe(true);
+    expect(predicate).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop scheduling predicates once an item does not match', async () => {
+    const predicate = vi.fn(isEven);
+
+    expect(await everyPool([2, 4, 5, 6], predicate, { concurrency: 1 })).toBe(false);
+    expect(predicate).toHaveBeenCalledTimes(3);
+
+    expect(await everyPool([2, 4], isEven, { concurrency: 2 })).toBe(true);
+  });
+
+  it('should find the match with the lowest index', async () => {
+    const predicate = async (item: number) => {
+      await delay(item);
+
+      return item % 2 === 0;
+    };
+
+    expect(await findPool([20, 1, 4, 3], predicate, { concurrency: 4 })).toBe(20);
+    expect(await findPool([1, 3], predicate, { concurrency: 2 })).toBeNull();
+  });
+});
@@ -0,0 +1,150 @@
+import { calculateBackoffDelay, delay, retry } from '~/async';
+
+describe('[calculateBackoffDelay]: compute delays between attempts', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should double the delay for each attempt by default', () => {
+    expect(calculateBackoffDelay({ attempt: 1, delayMs: 100 })).toBe(100);
+    expect(calculateBackoffDelay({ attempt: 3, delayMs: 100 })).toBe(400);
+  });
+
+  it('should keep the delay fixed when backoff is disabled', () => {
+    expect(calculateBackoffDelay({ attempt: 3, delayMs: 100, backoff: false })).toBe(100);
+  });
+
+  it('should cap the delay with maxDelayMs', () => {
+    expect(calculateBackoffDelay({ attempt: 10, delayMs: 100, maxDelayMs: 1000 })).toBe(1000);
+  });
+
+  it('should randomize the delay with full jitter', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    expect(calculateBackoffDelay({ attempt: 3, delayMs: 100, jitter: 'full' })).toBe(200);
+  });
+
+  it('should grow from the previous delay with decorrelated jitter', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    expect(
+      calculateBackoffDelay({
+        attempt: 2,
+        delayMs: 100,
+        previousDelayMs: 300,
+        jitter: 'decorrelated',
+      }),
+    ).toBe(500);
+
+    expect(
+      calculateBackoffDelay({
+        attempt: 2,
+        delayMs: 100,
+        previousDelayMs: 300,
+        maxDelayMs: 250,
+        jitter: 'decorrelated',
+      }),
+    ).toBe(250);
+  });
+});
+
+describe('[retry]: retry failing async functions', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const createFailingTask = (failuresCount: number, error: unknown = new Error('Failure')) => {
+    let calls = 0;
+
+    return vi.fn(async () => {
+      calls++;
+
+      if (calls <= failuresCount) {
+        throw error;
+      }
+
+      return 'apple';
+    });
+  };
+
+  it('should resolve once an attempt succeeds', async () => {
+    const task = createFailingTask(2);
+    const onRetry = vi.fn();
+
+    const promise = retry(task, { delayMs: 100, onRetry })();
+    await vi.runAllTimersAsync();
+
+    await expect(promise).resolves.toBe('apple');
+    expect(task).toHaveBeenCalledTimes(3);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+  });
+
+  it('should throw the last error and call onGiveUp after maxAttempts', async () => {
+    const task = createFailingTask(Infinity);
+    const onGiveUp = vi.fn();
+
+    const promise = retry(task, { maxAttempts: 2, delayMs: 100, onGiveUp })();
+    const assertion = expect(promise).rejects.toThrow('Failure');
+
+    await vi.runAllTimersAsync();
+    await assertion;
+
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(onGiveUp).toHaveBeenCalledWith(new Error('Failure'), 2);
+  });
+
+  it('should throw when maxAttempts is less than 1', () => {
+    const task = createFailingTask(Infinity);
+
+    expect(() => retry(task, { maxAttempts: 0 })).toThrow(
+      '[@react-hive/honey-utils]: Max attempts must be greater than or equal to 1.',
+    );
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it('should not retry when shouldRetry returns false', async () => {
+    const task = createFailingTask(Infinity, { status: 404 });
+
+    const promise = retry(task, {
+      shouldRetry: error => (error as { status: number }).status >= 500,
+    })();
+
+    await expect(promise).rejects.toStrictEqual({ status: 404 });
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop retrying when the next delay exceeds the deadline', async () => {
+    const task = createFailingTask(Infinity);
+
+    const promise = retry(task, { maxAttempts: 10, delayMs: 100, deadlineMs: 350 })();
+    const assertion = expect(promise).rejects.toThrow('Failure');
+
+    await vi.runAllTimersAsync();
+    await assertion;
+
+    // Delays: 100 → 200 → (400 would exceed the deadline)
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('should time out attempts exceeding attemptTimeoutMs', async () => {
+    let calls = 0;
+
+    const task = vi.fn(async () => {
+      calls++;
+
+      await delay(calls === 1 ? 1000 : 10);
+
+      return 'apple';
+    });
+
+    const promise = retry(task, { delayMs: 100, attemptTimeoutMs: 500 })();
+    await vi.runAllTimersAsync();
+
+    await expect(promise).resolves.toBe('apple');
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,129 @@
+import { AbortError, TimeoutError, createMutex, createSemaphore, delay } from '~/async';
+
+describe('[createSemaphore]: counting semaphore', () => {
+  it('should throw when permits are lower than 1', () => {
+    expect(() => createSemaphore(0)).toThrow('Permits must be greater than or equal to 1');
+  });
+
+  it('should limit the number of concurrent holders', async () => {
+    const semaphore = createSemaphore(2);
+
+    let running = 0;
+    let maxRunning = 0;
+
+    await Promise.all(
+      [1, 2, 3, 4, 5].map(() =>
+        semaphore.runExclusive(async () => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+
+          await delay(5);
+
+          running--;
+        }),
+      ),
+    );
+
+    expect(maxRunning).toBe(2);
+    expect(semaphore.availablePermits).toBe(2);
+  });
+
+  it('should serve waiting callers in FIFO order', async () => {
+    const semaphore = createSemaphore(1);
+    const order: number[] = [];
+
+    await semaphore.acquire();
+
+    const waiters = [1, 2, 3].map(id => semaphore.acquire().then(() => order.push(id)));
+
+    expect(semaphore.waitingCount).toBe(3);
+
+    for (let i = 0; i < 3; i++) {
+      semaphore.release();
+      await delay(0);
+    }
+
+    await Promise.all(waiters);
+
+    expect(order).toStrictEqual([1, 2, 3]);
+  });
+
+  it('should only take a permit immediately with tryAcquire', () => {
+    const semaphore = createSemaphore(1);
+
+    expect(semaphore.tryAcquire()).toBe(true);
+    expect(semaphore.tryAcquire()).toBe(false);
+
+    semaphore.release();
+
+    expect(semaphore.availablePermits).toBe(1);
+  });
+
+  it('should reject with a TimeoutError when no permit becomes available in time', async () => {
+    const semaphore = createSemaphore(1);
+
+    await semaphore.acquire();
+
+    await expect(semaphore.acquire({ timeoutMs: 10 })).rejects.toBeInstanceOf(TimeoutError);
+    expect(semaphore.waitingCount).toBe(0);
+
+    semaphore.release();
+
+    expect(semaphore.availablePermits).toBe(1);
+  });
+
+  it('should stop waiting when aborted', async () => {
+    const semaphore = createSemaphore(1);
+    const controller = new AbortController();
+
+    await semaphore.acquire();
+
+    const promise = semaphore.acquire({ signal: controller.signal });
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(AbortError);
+    expect(semaphore.waitingCount).toBe(0);
+  });
+
+  it('should release the permit when the exclusive task fails', async () => {
+    const semaphore = createSemaphore(1);
+
+    await expect(
+      semaphore.runExclusive(async () => {
+        throw new Error('Failure');
+      }),
+    ).rejects.toThrow('Failure');
+
+    expect(semaphore.availablePermits).toBe(1);
+  });
+
+  it('should throw when released more times than acquired', () => {
+    const semaphore = createSemaphore(1);
+
+    expect(() => semaphore.release()).toThrow('Semaphore was released more times than acquired');
+  });
+});
+
+describe('[createMutex]: mutual exclusion lock', () => {
+  it('should run exclusive tasks one at a time', async () => {
+    const mutex = createMutex();
+    const events: string[] = [];
+
+    const createTask = (name: string) => async () => {
+      events.push(`${name}:start`);
+
+      await delay(5);
+
+      events.push(`${name}:end`);
+    };
+
+    const first = mutex.runExclusive(createTask('first'));
+
+    expect(mutex.isLocked).toBe(true);
+
+    await Promise.all([first, mutex.runExclusive(createTask('second'))]);
+
+    expect(events).toStrictEqual(['first:start', 'first:end', 'second:start', 'second:end']);
+    expect(mutex.isLocked).toBe(false);
+  });
+});
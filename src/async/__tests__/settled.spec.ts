@@ -0,0 +1,67 @@
+import {
+  BatchError,
+  isBatchError,
+  runParallelSettled,
+  runSequentialSettled,
+  unwrapSettledResults,
+} from '~/async';
+
+describe('[runSequentialSettled / runParallelSettled]: settled results of bulk operations', () => {
+  const double = async (item: number) => {
+    if (item === 2) {
+      throw new Error('Failure');
+    }
+
+    return item * 2;
+  };
+
+  it('should keep running sequentially after a failed item', async () => {
+    const results = await runSequentialSettled([1, 2, 3], double);
+
+    expect(results).toStrictEqual([
+      { status: 'fulfilled', index: 0, value: 2 },
+      { status: 'rejected', index: 1, reason: new Error('Failure') },
+      { status: 'fulfilled', index: 2, value: 6 },
+    ]);
+  });
+
+  it('should settle every item in parallel', async () => {
+    const results = await runParallelSettled([2, 3], double);
+
+    expect(results).toStrictEqual([
+      { status: 'rejected', index: 0, reason: new Error('Failure') },
+      { status: 'fulfilled', index: 1, value: 6 },
+    ]);
+  });
+});
+
+describe('[unwrapSettledResults]: extract values from settled results', () => {
+  it('should return values when all items are fulfilled', () => {
+    expect(
+      unwrapSettledResults([
+        { status: 'fulfilled', index: 0, value: 'apple' },
+        { status: 'fulfilled', index: 1, value: 'pear' },
+      ]),
+    ).toStrictEqual(['apple', 'pear']);
+  });
+
+  it('should throw a BatchError carrying failed item indices', () => {
+    const run = () =>
+      unwrapSettledResults([
+        { status: 'rejected', index: 0, reason: 'first' },
+        { status: 'fulfilled', index: 1, value: 'pear' },
+        { status: 'rejected', index: 2, reason: 'third' },
+      ]);
+
+    expect(run).toThrow(BatchError);
+    expect(run).toThrow('2 of 3 items failed');
+
+    try {
+      run();
+    } catch (e) {
+      expect(isBatchError(e)).toBe(true);
+      expect(e).toBeInstanceOf(AggregateError);
+      expect(e).toMatchObject({ errors: ['first', 'third'], indices: [0, 2] });
+    }
+  });
+});
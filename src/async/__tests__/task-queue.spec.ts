@@ -0,0 +1,139 @@
+import { AbortError, createTaskQueue, delay } from '~/async';
+
+describe('[createTaskQueue]: long-lived async task queue', () => {
+  it('should run tasks sequentially by default', async () => {
+    const queue = createTaskQueue();
+    const order: string[] = [];
+
+    const first = queue.add(async () => {
+      await delay(10);
+      order.push('first');
+
+      return 1;
+    });
+
+    const second = queue.add(async () => {
+      order.push('second');
+
+      return 2;
+    });
+
+    expect(await Promise.all([first, second])).toStrictEqual([1, 2]);
+    expect(order).toStrictEqual(['first', 'second']);
+  });
+
+  it('should respect the concurrency limit', async () => {
+    const queue = createTaskQueue({ concurrency: 2 });
+
+    let running = 0;
+    let maxRunning = 0;
+
+    const task = async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+
+      await delay(5);
+
+      running--;
+    };
+
+    for (let i = 0; i < 5; i++) {
+      queue.add(task);
+    }
+
+    expect(queue.runningCount).toBe(2);
+    expect(queue.size).toBe(3);
+
+    await queue.onIdle();
+
+    expect(maxRunning).toBe(2);
+  });
+
+  it('should run higher priority tasks first', async () => {
+    const queue = createTaskQueue({ autoStart: false });
+    const order: string[] = [];
+
+    const createTask = (name: string) => async () => {
+      order.push(name);
+    };
+
+    queue.add(createTask('low'));
+    queue.add(createTask('high'), { priority: 2 });
+    queue.add(createTask('medium-1'), { priority: 1 });
+    queue.add(createTask('medium-2'), { priority: 1 });
+
+    await queue.drain();
+
+    expect(order).toStrictEqual(['high', 'medium-1', 'medium-2', 'low']);
+  });
+
+  it('should not start tasks while paused', async () => {
+    const queue = createTaskQueue();
+    const task = vi.fn(async () => 'apple');
+
+    queue.pause();
+    const promise = queue.add(task);
+
+    await delay(5);
+
+    expect(task).not.toHaveBeenCalled();
+    expect(queue.isPaused).toBe(true);
+
+    queue.resume();
+
+    await expect(promise).resolves.toBe('apple');
+  });
+
+  it('should resolve onEmpty before onIdle', async () => {
+    const queue = createTaskQueue();
+    const events: string[] = [];
+
+    queue.add(() => delay(10));
+
+    queue.onIdle().then(() => events.push('idle'));
+    queue.onEmpty().then(() => events.push('empty'));
+
+    await queue.onIdle();
+    await delay(0);
+
+    expect(events).toStrictEqual(['empty', 'idle']);
+  });
+
+  it('should remove an aborted waiting task', async () => {
+    const queue = createTaskQueue({ autoStart: false });
+    const controller = new AbortController();
+    const task = vi.fn(async () => 'apple');
+
+    const promise = queue.add(task, { signal: controller.signal });
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(AbortError);
+
+    await queue.drain();
+
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it('should reject waiting tasks on clear', async () => {
+    const queue = createTaskQueue({ autoStart: false });
+
+    const promise = queue.add(async () => 'apple');
+    queue.clear();
+
+    await expect(promise).rejects.toBeInstanceOf(AbortError);
+    expect(queue.size).toBe(0);
+  });
+
+  it('should keep processing after a task fails', async () => {
+    const queue = createTaskQueue();
+
+    const failing = queue.add(async () => {
+      throw new Error('Failure');
+    });
+
+    const succeeding = queue.add(async () => 'apple');
+
+    await expect(failing).rejects.toThrow('Failure');
+    await expect(succeeding).resolves.toBe('apple');
+  });
+});
@@ -0,0 +1,103 @@
+import { AbortError, TimeoutError, delay, isTimeoutError, timeout } from '~/async';
+
+describe('[timeout]: limit the duration of async operations', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should resolve with the promise value and clear the timer', async () => {
+    await expect(timeout(Promise.resolve('apple'), 1000)).resolves.toBe('apple');
+
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('should clear the timer when the promise rejects', async () => {
+    await expect(timeout(Promise.reject(new Error('Failure')), 1000)).rejects.toThrow('Failure');
+
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('should reject with a TimeoutError when the duration is exceeded', async () => {
+    const promise = timeout(delay(1000), 500, 'Too long');
+    const assertion = expect(promise).rejects.toThrow(TimeoutError);
+
+    await vi.advanceTimersByTimeAsync(500);
+    await assertion;
+
+    await expect(promise).rejects.toThrow('Too long');
+  });
+
+  it('should resolve with the fallback value when the duration is exceeded', async () => {
+    const promise = timeout(
+      delay(1000).then(() => ['apple']),
+      500,
+      { fallback: [] },
+    );
+
+    await vi.advanceTimersByTimeAsync(500);
+
+    await expect(promise).resolves.toStrictEqual([]);
+  });
+
+  it('should abort the signal passed to the factory when the duration is exceeded', async () => {
+    let factorySignal: AbortSignal | undefined;
+
+    const promise = timeout(signal => {
+      factorySignal = signal;
+
+      return delay(1000, { signal });
+    }, 500);
+    const assertion = expect(promise).rejects.toThrow(TimeoutError);
+
+    await vi.advanceTimersByTimeAsync(500);
+    await assertion;
+
+    expect(factorySignal?.aborted).toBe(true);
+    expect(isTimeoutError(factorySignal?.reason)).toBe(true);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('should abort the factory signal when the outer signal is aborted', async () => {
+    const controller = new AbortController();
+    let factorySignal: AbortSignal | undefined;
+
+    const promise = timeout(
+      signal => {
+        factorySignal = signal;
+
+        return delay(1000, { signal });
+      },
+      500,
+      { signal: controller.signal },
+    );
+
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(AbortError);
+    expect(factorySignal?.aborted).toBe(true);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('should keep the promise rejection handled when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const promise = Promise.reject(new Error('Failure'));
+    const catchSpy = vi.spyOn(promise, 'catch');
+
+    await expect(timeout(promise, 500, { signal: controller.signal })).rejects.toBeInstanceOf(
+      AbortError,
+    );
+    expect(catchSpy).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('should detect timeout errors', () => {
+    expect(isTimeoutError(new TimeoutError())).toBe(true);
+    expect(isTimeoutError(new Error('Operation timed out'))).toBe(false);
+  });
+});
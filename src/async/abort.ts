@@ -0,0 +1,99 @@
+import { isError } from '~/guards';
+import { noop } from '~/function';
+
+export interface AbortableOptions {
+  /**
+   * Optional signal used to stop the operation early.
+   *
+   * When aborted, pending timers are cleared, no further iterations or attempts are scheduled,
+   * and the returned promise rejects with an {@link AbortError}.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Error used to reject async helpers when their `AbortSignal` fires.
+ *
+ * The original `signal.reason` (if any) is preserved as the error `cause`.
+ */
+export class AbortError extends Error {
+  constructor(message = 'The operation was aborted', options?: ErrorOptions) {
+    super(message, options);
+
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Checks if a value is an abort error.
+ *
+ * Matches both {@link AbortError} instances and native abort errors
+ * (e.g. the `DOMException` thrown by `fetch` when its signal is aborted).
+ *
+ * @param value - The value to check.
+ *
+ * @returns `true` if the value is an abort error; otherwise, `false`.
+ */
+export const isAbortError = (value: unknown): value is Error =>
+  isError(value) && value.name === 'AbortError';
+
+/**
+ * Creates an {@link AbortError} for the given signal, keeping its `reason` as the error `cause`.
+ *
+ * @param signal - The aborted signal.
+ *
+ * @returns A new `AbortError` instance.
+ */
+export const createAbortError = (signal: AbortSignal | undefined): AbortError =>
+  new AbortError(undefined, { cause: signal?.reason });
+
+/**
+ * Throws an {@link AbortError} when the provided signal has already been aborted.
+ *
+ * @param signal - Optional abort signal to check.
+ */
+export const throwIfAborted = (signal: AbortSignal | undefined): void => {
+  if (signal?.aborted) {
+    throw createAbortError(signal);
+  }
+};
+
+/**
+ * Races a promise against an abort signal.
+ *
+ * The returned promise settles with the original promise, or rejects with an
+ * {@link AbortError} as soon as the signal fires. The abort listener is always removed
+ * once the race is settled.
+ *
+ * ⚠️ The underlying work is not cancelled - only the returned promise is rejected.
+ *
+ * @template T - The type of the promise result.
+ *
+ * @param promise - The promise to race.
+ * @param signal - Optional abort signal. When omitted, the original promise is returned.
+ *
+ * @returns A promise that settles with the original promise or rejects on abort.
+ */
+export const raceWithAbortSignal = <T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined,
+): Promise<T> => {
+  if (!signal) {
+    return promise;
+  }
+
+  if (signal.aborted) {
+    // Nobody waits for the original promise anymore, so keep its rejection handled
+    promise.catch(noop);
+
+    return Promise.reject(createAbortError(signal));
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError(signal));
+
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+};
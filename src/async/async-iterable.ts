@@ -0,0 +1,323 @@
+import type { Nullable } from '~/types';
+import type { AbortableOptions } from '~/async';
+import { assert } from '~/guards';
+import { isFunction, noop } from '~/function';
+import { raceWithAbortSignal, throwIfAborted } from '~/async';
+
+/**
+ * Any synchronous or asynchronous iterable, e.g. an array, a generator or an async generator.
+ */
+export type AnyIterable<Item> = AsyncIterable<Item> | Iterable<Item>;
+
+/**
+ * Checks if a value is an async iterable.
+ *
+ * @param value - The value to check.
+ *
+ * @returns `true` if the value implements `Symbol.asyncIterator`; otherwise, `false`.
+ */
+export const isAsyncIterable = <Item = unknown>(value: unknown): value is AsyncIterable<Item> =>
+  isFunction((value as AsyncIterable<Item>)?.[Symbol.asyncIterator]);
+
+/**
+ * Converts an array or any other iterable into an async iterable.
+ *
+ * @param source - The iterable to convert.
+ *
+ * @returns An async generator yielding the items of the source.
+ */
+export async function* toAsyncIterable<Item>(source: AnyIterable<Item>): AsyncGenerator<Item> {
+  yield* source;
+}
+
+/**
+ * Collects all items of an async iterable into an array.
+ *
+ * @param source - The iterable to collect.
+ * @param options - Optional settings such as an abort signal.
+ *
+ * @returns A promise that resolves with all items in iteration order.
+ */
+export const collectAsyncIterable = async <Item>(
+  source: AnyIterable<Item>,
+  { signal }: AbortableOptions = {},
+): Promise<Item[]> => {
+  const items: Item[] = [];
+
+  for await (const item of source) {
+    throwIfAborted(signal);
+
+    items.push(item);
+  }
+
+  return items;
+};
+
+interface MapAsyncIterableOptions extends AbortableOptions {
+  /**
+   * Maximum number of operations running at the same time.
+   *
+   * With `1`, items are processed strictly sequentially.
+   *
+   * @default 1
+   */
+  concurrency?: number;
+}
+
+/**
+ * Lazily applies an async function to each item of an iterable.
+ *
+ * Equivalent of {@link runSequential} (or {@link runPool} when `concurrency` is greater than `1`)
+ * for streaming data. The source is consumed only as fast as results are requested, at most
+ * `concurrency` items ahead, and results are yielded in source order.
+ *
+ * @template Item - The type of the source items.
+ * @template Result - The type of the operation result.
+ *
+ * @param source - The iterable to map.
+ * @param fn - The async function to apply to each item.
+ * @param options - Optional settings such as concurrency and an abort signal.
+ *
+ * @returns An async generator yielding results in source order.
+ *
+ * @example
+ * ```ts
+ * for await (const thumbnail of mapAsyncIterable(fetchPhotoPages(), createThumbnail, {
+ *   concurrency: 4,
+ * })) {
+ *   render(thumbnail);
+ * }
+ * ```
+ */
+export async function* mapAsyncIterable<Item, Result>(
+  source: AnyIterable<Item>,
+  fn: (item: Item, index: number) => Promise<Result>,
+  { concurrency = 1, signal }: MapAsyncIterableOptions = {},
+): AsyncGenerator<Result> {
+  assert(concurrency >= 1, 'Concurrency must be greater than or equal to 1');
+
+  const pendingResults: Promise<Result>[] = [];
+
+  let index = 0;
+
+  for await (const item of source) {
+    throwIfAborted(signal);
+
+    const result = fn(item, index++);
+    // Rejections are surfaced when the result is awaited, avoid unhandled rejection warnings until then
+    result.catch(noop);
+
+    pendingResults.push(result);
+
+    if (pendingResults.length >= concurrency) {
+      yield await raceWithAbortSignal(pendingResults.shift() as Promise<Result>, signal);
+    }
+  }
+
+  while (pendingResults.length) {
+    yield await raceWithAbortSignal(pendingResults.shift() as Promise<Result>, signal);
+  }
+}
+
+/**
+ * Lazily filters an iterable using an async predicate, executing **sequentially**.
+ *
+ * @param source - The iterable to filter.
+ * @param predicate - An async function that returns a boolean indicating whether to keep each item.
+ * @param options - Optional settings such as an abort signal.
+ *
+ * @returns An async generator yielding only the items for which the predicate returned `true`.
+ */
+export async function* filterAsyncIterable<Item>(
+  source: AnyIterable<Item>,
+  predicate: (item: Item, index: number) => Promise<boolean>,
+  { signal }: AbortableOptions = {},
+): AsyncGenerator<Item> {
+  let index = 0;
+
+  for await (const item of source) {
+    throwIfAborted(signal);
+
+    if (await raceWithAbortSignal(predicate(item, index++), signal)) {
+      yield item;
+    }
+  }
+}
+
+/**
+ * Lazily groups the items of an iterable into arrays of the specified size.
+ *
+ * @param source - The iterable to chunk.
+ * @param size - The size of each chunk. Must be greater than 0.
+ * @param options - Optional settings such as an abort signal.
+ *
+ * @returns An async generator yielding chunks, where the last chunk may be smaller.
+ *
+ * @example
+ * ```ts
+ * for await (const batch of chunkAsyncIterable(readRows(), 100)) {
+ *   await saveRows(batch);
+ * }
+ * ```
+ */
+export async function* chunkAsyncIterable<Item>(
+  source: AnyIterable<Item>,
+  size: number,
+  { signal }: AbortableOptions = {},
+): AsyncGenerator<Item[]> {
+  assert(size > 0, 'Chunk size must be greater than 0');
+
+  let chunk: Item[] = [];
+
+  for await (const item of source) {
+    throwIfAborted(signal);
+
+    chunk.push(item);
+
+    if (chunk.length === size) {
+      yield chunk;
+
+      chunk = [];
+    }
+  }
+
+  if (chunk.length) {
+    yield chunk;
+  }
+}
+
+/**
+ * Asynchronously reduces an iterable to a single accumulated value.
+ *
+ * @param source - The iterable to reduce.
+ * @param fn - The async reducer function that processes each item and returns the updated accumulator.
+ * @param initialValue - The initial accumulator value.
+ * @param options - Optional settings such as an abort signal.
+ *
+ * @returns A promise that resolves to the final accumulated result.
+ */
+export const reduceAsyncIterable = async <Item, Accumulator>(
+  source: AnyIterable<Item>,
+  fn: (accumulator: Accumulator, item: Item, index: number) => Promise<Accumulator>,
+  initialValue: Accumulator,
+  { signal }: AbortableOptions = {},
+): Promise<Accumulator> => {
+  let accumulator = initialValue;
+  let index = 0;
+
+  for await (const item of source) {
+    throwIfAborted(signal);
+
+    accumulator = await raceWithAbortSignal(fn(accumulator, item, index++), signal);
+  }
+
+  return accumulator;
+};
+
+/**
+ * Asynchronously finds the first item of an iterable that satisfies the async condition.
+ *
+ * Iteration stops as soon as a match is found, closing the source iterable.
+ *
+ * @param source - The iterable to search.
+ * @param predicate - An async function that returns a boolean.
+ * @param options - Optional settings such as an abort signal.
+ *
+ * @returns A promise that resolves to the found item or null if none match.
+ */
+export const findAsyncIterable = async <Item>(
+  source: AnyIterable<Item>,
+  predicate: (item: Item, index: number) => Promise<boolean>,
+  { signal }: AbortableOptions = {},
+): Promise<Nullable<Item>> => {
+  let index = 0;
+
+  for await (const item of source) {
+    throwIfAborted(signal);
+
+    if (await raceWithAbortSignal(predicate(item, index++), signal)) {
+      return item;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Converts a web `ReadableStream` into an async iterable.
+ *
+ * Uses a stream reader instead of native stream iteration, which is not supported everywhere.
+ * When iteration stops early, the stream is cancelled.
+ *
+ * @param stream - The stream to read.
+ *
+ * @returns An async generator yielding the stream chunks.
+ *
+ * @example
+ * ```ts
+ * const response = await fetch('/api/export');
+ *
+ * for await (const chunk of readableStreamToAsyncIterable(response.body)) {
+ *   process(chunk);
+ * }
+ * ```
+ */
+export async function* readableStreamToAsyncIterable<Item>(
+  stream: ReadableStream<Item>,
+): AsyncGenerator<Item> {
+  const reader = stream.getReader();
+  // The consumer can only stop early while a chunk is yielded, read errors are rethrown as is
+  let isYielding = false;
+
+  try {
+    while (true) {
+      const result = await reader.read();
+
+      if (result.done) {
+        return;
+      }
+
+      isYielding = true;
+      yield result.value;
+      isYielding = false;
+    }
+  } finally {
+    try {
+      if (isYielding) {
+        await reader.cancel();
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+}
+
+/**
+ * Converts an iterable into a web `ReadableStream`.
+ *
+ * Items are pulled from the source on demand, and cancelling the stream closes the source.
+ *
+ * @param source - The iterable to convert.
+ *
+ * @returns A readable stream emitting the items of the source.
+ */
+export const asyncIterableToReadableStream = <Item>(
+  source: AnyIterable<Item>,
+): ReadableStream<Item> => {
+  const iterator = toAsyncIterable(source);
+
+  return new ReadableStream<Item>({
+    pull: async controller => {
+      const result = await iterator.next();
+
+      if (result.done) {
+        controller.close();
+      } else {
+        controller.enqueue(result.value);
+      }
+    },
+    cancel: async () => {
+      await iterator.return(undefined);
+    },
+  });
+};
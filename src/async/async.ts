@@ -1,6 +1,8 @@
 import type { Nullable } from '~/types';
+import type { AbortableOptions } from '~/async';
 import { compact } from '~/array';
 import { isFunction } from '~/function';
+import { raceWithAbortSignal, throwIfAborted } from '~/async';
 
 /**
  * Checks if a value is a Promise.
@@ -22,6 +24,7 @@ export const isPromise = <T = unknown>(value: unknown): value is Promise<T> =>
  *
  * @param array - The array of items to iterate over.
  * @param fn - An async function to execute for each item. Must return a value.
+ * @param options - Optional settings such as an abort signal.
  *
  * @returns A promise that resolves with an array of results from each function call.
  *
@@ -39,11 +42,14 @@ export const isPromise = <T = unknown>(value: unknown): value is Promise<T> =>
 export const runSequential = async <Item, Result>(
   array: Item[],
   fn: (item: Item, index: number, array: Item[]) => Promise<Result>,
+  { signal }: AbortableOptions = {},
 ): Promise<Result[]> => {
   const results: Result[] = [];
 
   for (let i = 0; i < array.length; i++) {
-    results.push(await fn(array[i], i, array));
+    throwIfAborted(signal);
+
+    results.push(await raceWithAbortSignal(fn(array[i], i, array), signal));
   }
 
   return results;
@@ -52,8 +58,12 @@ export const runSequential = async <Item, Result>(
 /**
  * Executes an asynchronous operation on each element of an array and waits for all promises to resolve.
  *
+ * Aborting the signal rejects the returned promise immediately, but operations that have
+ * already started are not cancelled.
+ *
  * @param array - The array of items to operate on.
  * @param fn - The asynchronous operation to perform on each item.
+ * @param options - Optional settings such as an abort signal.
  *
  * @returns A promise that resolves with an array of results after all operations are completed.
  *
@@ -71,7 +81,195 @@ export const runSequential = async <Item, Result>(
 export const runParallel = async <Item, Result>(
   array: Item[],
   fn: (item: Item, index: number, array: Item[]) => Promise<Result>,
-): Promise<Result[]> => Promise.all(array.map(fn));
+  { signal }: AbortableOptions = {},
+): Promise<Result[]> => {
+  throwIfAborted(signal);
+
+  return raceWithAbortSignal(Promise.all(array.map(fn)), signal);
+};
+
+export interface FulfilledItemResult<Result> {
+  status: 'fulfilled';
+  /**
+   * Index of the item in the input array.
+   */
+  index: number;
+  value: Result;
+}
+
+export interface RejectedItemResult {
+  status: 'rejected';
+  /**
+   * Index of the item in the input array.
+   */
+  index: number;
+  reason: unknown;
+}
+
+/**
+ * Outcome of an async operation executed for a single array item.
+ *
+ * @template Result - The type of the operation result.
+ */
+export type SettledItemResult<Result> = FulfilledItemResult<Result> | RejectedItemResult;
+
+/**
+ * Aggregated error describing every failed item of a bulk async operation.
+ *
+ * Extends the native `AggregateError`, so `errors` contains the failure reasons,
+ * while `indices` holds the matching item indices in the same order.
+ */
+export class BatchError extends AggregateError {
+  readonly indices: number[];
+
+  constructor(errors: unknown[], indices: number[], message?: string) {
+    super(errors, message ?? `${errors.length} item(s) failed`);
+
+    this.name = 'BatchError';
+    this.indices = indices;
+  }
+}
+
+/**
+ * Checks if a value is a {@link BatchError}.
+ *
+ * @param value - The value to check.
+ *
+ * @returns `true` if the value is a `BatchError`; otherwise, `false`.
+ */
+export const isBatchError = (value: unknown): value is BatchError => value instanceof BatchError;
+
+/**
+ * Settles an async operation for a single item without ever rejecting.
+ */
+const settleItem = async <Result>(
+  task: () => Promise<Result>,
+  index: number,
+): Promise<SettledItemResult<Result>> => {
+  try {
+    return {
+      status: 'fulfilled',
+      index,
+      value: await task(),
+    };
+  } catch (e) {
+    return {
+      status: 'rejected',
+      index,
+      reason: e,
+    };
+  }
+};
+
+/**
+ * Same as {@link runSequential}, but a failing item does not stop the run.
+ *
+ * Each item produces a `{ status: 'fulfilled' | 'rejected' }` entry, allowing partial
+ * successes of bulk operations to be inspected. Only aborting the signal rejects the
+ * returned promise.
+ *
+ * @param array - The array of items to iterate over.
+ * @param fn - An async function to execute for each item.
+ * @param options - Optional settings such as an abort signal.
+ *
+ * @returns A promise that resolves with the settled result of each item, in item order.
+ *
+ * @example
+ * ```ts
+ * const results = await runSequentialSettled(files, file => uploadFile(file));
+ *
+ * const failedFiles = results
+ *   .filter(result => result.status === 'rejected')
+ *   .map(result => files[result.index]);
+ * ```
+ */
+export const runSequentialSettled = async <Item, Result>(
+  array: Item[],
+  fn: (item: Item, index: number, array: Item[]) => Promise<Result>,
+  { signal }: AbortableOptions = {},
+): Promise<SettledItemResult<Result>[]> => {
+  const results: SettledItemResult<Result>[] = [];
+
+  for (let i = 0; i < array.length; i++) {
+    throwIfAborted(signal);
+
+    results.push(
+      await raceWithAbortSignal(
+        settleItem(() => fn(array[i], i, array), i),
+        signal,
+      ),
+    );
+  }
+
+  return results;
+};
+
+/**
+ * Same as {@link runParallel}, but waits for every item to settle instead of rejecting
+ * on the first failure. Only aborting the signal rejects the returned promise.
+ *
+ * @param array - The array of items to operate on.
+ * @param fn - The asynchronous operation to perform on each item.
+ * @param options - Optional settings such as an abort signal.
+ *
+ * @returns A promise that resolves with the settled result of each item, in item order.
+ *
+ * @example
+ * ```ts
+ * const results = await runParallelSettled([1, 2, 3], async item => {
+ *   if (item === 2) {
+ *     throw new Error('Failure');
+ *   }
+ *
+ *   return item * 2;
+ * });
+ *
+ * // [
+ * //   { status: 'fulfilled', index: 0, value: 2 },
+ * //   { status: 'rejected', index: 1, reason: Error('Failure') },
+ * //   { status: 'fulfilled', index: 2, value: 6 },
+ * // ]
+ * ```
+ */
+export const runParallelSettled = async <Item, Result>(
+  array: Item[],
+  fn: (item: Item, index: number, array: Item[]) => Promise<Result>,
+  { signal }: AbortableOptions = {},
+): Promise<SettledItemResult<Result>[]> => {
+  throwIfAborted(signal);
+
+  return raceWithAbortSignal(
+    Promise.all(array.map((item, index) => settleItem(() => fn(item, index, array), index))),
+    signal,
+  );
+};
+
+/**
+ * Extracts the values from settled item results.
+ *
+ * @template Result - The type of the operation result.
+ *
+ * @param results - Settled item results, e.g. from {@link runParallelSettled}.
+ *
+ * @returns The fulfilled values in item order.
+ *
+ * @throws {BatchError} When at least one item was rejected.
+ */
+export const unwrapSettledResults = <Result>(results: SettledItemResult<Result>[]): Result[] => {
+  const rejectedResults = results.filter(
+    (result): result is RejectedItemResult => result.status === 'rejected',
+  );
+
+  if (rejectedResults.length) {
+    throw new BatchError(
+      rejectedResults.map(result => result.reason),
+      rejectedResults.map(result => result.index),
+      `${rejectedResults.length} of ${results.length} items failed`,
+    );
+  }
+
+  return results.map(result => (result as FulfilledItemResult<Result>).value);
+};
 
 /**
  * Asynchronously filters an array using a predicate function, executing **sequentially**.
@@ -82,6 +280,7 @@ export const runParallel = async <Item, Result>(
  *
  * @param array - The array of items to filter.
  * @param predicate - An async function that returns a `boolean` indicating whether to keep each item.
+ * @param options - Optional settings such as an abort signal.
  *
  * @returns A promise that resolves to a new array containing only the items for which the predicate returned `true`.
  *
@@ -100,13 +299,16 @@ export const runParallel = async <Item, Result>(
 export const filterSequential = async <Item>(
   array: Item[],
   predicate: (item: Item, index: number, array: Item[]) => Promise<boolean>,
+  { signal }: AbortableOptions = {},
 ): Promise<Item[]> => {
   const results: Item[] = [];
 
   for (let i = 0; i < array.length; i++) {
+    throwIfAborted(signal);
+
     const item = array[i];
 
-    if (await predicate(item, i, array)) {
+    if (await raceWithAbortSignal(predicate(item, i, array), signal)) {
       results.push(item);
     }
   }
@@ -127,6 +329,7 @@ export const filterSequential = async <Item>(
  *
  * @param array - The array of items to filter.
  * @param predicate - An async function that returns a boolean indicating whether to keep each item.
+ * @param options - Optional settings such as an abort signal.
  *
  * @returns A promise that resolves to a new array containing only the items for which the predicate returned `true`.
  *
@@ -145,9 +348,12 @@ export const filterSequential = async <Item>(
 export const filterParallel = async <Item>(
   array: Item[],
   predicate: (item: Item, index: number, array: Item[]) => Promise<boolean>,
+  options: AbortableOptions = {},
 ): Promise<Item[]> => {
-  const results = await runParallel(array, async (item, index, array) =>
-    (await predicate(item, index, array)) ? item : false,
+  const results = await runParallel(
+    array,
+    async (item, index, array) => ((await predicate(item, index, array)) ? item : false),
+    options,
   );
 
   return compact(results);
@@ -158,15 +364,19 @@ export const filterParallel = async <Item>(
  *
  * @param array - The array of items to check.
  * @param predicate - An async function that returns a boolean.
+ * @param options - Optional settings such as an abort signal.
  *
  * @returns A promise that resolves to true if any item passes the condition.
  */
 export const someAsync = async <Item>(
   array: Item[],
   predicate: (item: Item, index: number, array: Item[]) => Promise<boolean>,
+  { signal }: AbortableOptions = {},
 ): Promise<boolean> => {
   for (let i = 0; i < array.length; i++) {
-    if (await predicate(array[i], i, array)) {
+    throwIfAborted(signal);
+
+    if (await raceWithAbortSignal(predicate(array[i], i, array), signal)) {
       return true;
     }
   }
@@ -179,15 +389,19 @@ export const someAsync = async <Item>(
  *
  * @param array - The array of items to check.
  * @param predicate - An async function that returns a boolean.
+ * @param options - Optional settings such as an abort signal.
  *
  * @returns A promise that resolves to true if all items pass the condition.
  */
 export const everyAsync = async <Item>(
   array: Item[],
   predicate: (item: Item, index: number, array: Item[]) => Promise<boolean>,
+  { signal }: AbortableOptions = {},
 ): Promise<boolean> => {
   for (let i = 0; i < array.length; i++) {
-    if (!(await predicate(array[i], i, array))) {
+    throwIfAborted(signal);
+
+    if (!(await raceWithAbortSignal(predicate(array[i], i, array), signal))) {
       return false;
     }
   }
@@ -204,6 +418,7 @@ export const everyAsync = async <Item>(
  * @param array - The array to reduce.
  * @param fn - The async reducer function that processes each item and returns the updated accumulator.
  * @param initialValue - The initial accumulator value.
+ * @param options - Optional settings such as an abort signal.
  *
  * @returns A promise that resolves to the final accumulated result.
  */
@@ -211,11 +426,14 @@ export const reduceAsync = async <Item, Accumulator>(
   array: Item[],
   fn: (accumulator: Accumulator, item: Item, index: number, array: Item[]) => Promise<Accumulator>,
   initialValue: Accumulator,
+  { signal }: AbortableOptions = {},
 ): Promise<Accumulator> => {
   let accumulator = initialValue;
 
   for (let i = 0; i < array.length; i++) {
-    accumulator = await fn(accumulator, array[i], i, array);
+    throwIfAborted(signal);
+
+    accumulator = await raceWithAbortSignal(fn(accumulator, array[i], i, array), signal);
   }
 
   return accumulator;
@@ -226,15 +444,19 @@ export const reduceAsync = async <Item, Accumulator>(
  *
  * @param array - The array of items to search.
  * @param predicate - An async function that returns a boolean.
+ * @param options - Optional settings such as an abort signal.
  *
  * @returns A promise that resolves to the found item or null if none match.
  */
 export const findAsync = async <Item>(
   array: Item[],
   predicate: (item: Item, index: number, array: Item[]) => Promise<boolean>,
+  { signal }: AbortableOptions = {},
 ): Promise<Nullable<Item>> => {
   for (let i = 0; i < array.length; i++) {
-    if (await predicate(array[i], i, array)) {
+    throwIfAborted(signal);
+
+    if (await raceWithAbortSignal(predicate(array[i], i, array), signal)) {
       return array[i];
     }
   }
@@ -0,0 +1,88 @@
+/**
+ * Randomization strategy applied to backoff delays.
+ *
+ * - `'none'` → deterministic delays.
+ * - `'full'` → a random delay between `0` and the computed backoff delay.
+ * - `'decorrelated'` → a random delay between `delayMs` and three times the previous delay.
+ */
+export type BackoffJitter = 'none' | 'full' | 'decorrelated';
+
+export interface BackoffOptions {
+  /**
+   * Base delay in milliseconds between attempts.
+   * If `backoff` is true, this is the base delay for exponential backoff.
+   *
+   * @default 300
+   */
+  delayMs?: number;
+  /**
+   * Whether to use exponential backoff for delays between attempts.
+   * When enabled, the delay is multiplied by 2 ^ (`attempt` - 1).
+   *
+   * Ignored when `jitter` is `'decorrelated'`, which grows delays on its own.
+   *
+   * @default true
+   */
+  backoff?: boolean;
+  /**
+   * Upper bound for a single delay in milliseconds.
+   *
+   * @default Infinity
+   */
+  maxDelayMs?: number;
+  /**
+   * Randomization strategy used to spread out attempts of concurrent callers.
+   *
+   * @default 'none'
+   */
+  jitter?: BackoffJitter;
+}
+
+interface CalculateBackoffDelayOptions extends BackoffOptions {
+  /**
+   * The attempt number that has just completed (starting from 1).
+   */
+  attempt: number;
+  /**
+   * The previously applied delay. Only used by the `'decorrelated'` jitter strategy.
+   *
+   * @default delayMs
+   */
+  previousDelayMs?: number;
+}
+
+/**
+ * Calculates the delay before the next attempt of a repeated operation.
+ *
+ * @returns The delay in milliseconds, never greater than `maxDelayMs`.
+ *
+ * @example
+ * ```ts
+ * calculateBackoffDelay({ attempt: 3, delayMs: 100 });
+ * // → 400
+ *
+ * calculateBackoffDelay({ attempt: 10, delayMs: 100, maxDelayMs: 5000 });
+ * // → 5000
+ *
+ * calculateBackoffDelay({ attempt: 3, delayMs: 100, jitter: 'full' });
+ * // → random value in [0, 400)
+ * ```
+ */
+export const calculateBackoffDelay = ({
+  attempt,
+  delayMs = 300,
+  backoff = true,
+  maxDelayMs = Infinity,
+  jitter = 'none',
+  previousDelayMs = delayMs,
+}: CalculateBackoffDelayOptions): number => {
+  if (jitter === 'decorrelated') {
+    const upperBound = Math.max(delayMs, previousDelayMs * 3);
+
+    return Math.min(maxDelayMs, delayMs + Math.random() * (upperBound - delayMs));
+  }
+
+  const baseDelayMs = Math.min(maxDelayMs, backoff ? delayMs * 2 ** (attempt - 1) : delayMs);
+
+  return jitter === 'full' ? Math.random() * baseDelayMs : baseDelayMs;
+};
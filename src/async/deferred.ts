@@ -0,0 +1,108 @@
+import { isPromise } from '~/async';
+
+export type DeferredStatus = 'pending' | 'fulfilled' | 'rejected';
+
+export interface Deferred<T> {
+  /**
+   * The promise controlled by this deferred.
+   */
+  promise: Promise<T>;
+  /**
+   * Resolves the promise. Calls after the deferred has been resolved or rejected are ignored.
+   */
+  resolve: (value: T | PromiseLike<T>) => void;
+  /**
+   * Rejects the promise. Calls after the deferred has been resolved or rejected are ignored.
+   */
+  reject: (reason?: unknown) => void;
+  /**
+   * Current state of the promise.
+   */
+  readonly status: DeferredStatus;
+  /**
+   * Whether the promise has been fulfilled or rejected.
+   */
+  readonly isSettled: boolean;
+}
+
+/**
+ * Creates a promise together with the functions that settle it.
+ *
+ * Useful when a promise must be settled from outside its executor, e.g. when bridging
+ * callback or event based APIs, or coordinating async UI flows.
+ *
+ * The `status` is updated synchronously when settled with a plain value, and follows the
+ * outcome when resolved with another promise.
+ *
+ * @template T - The type of the promise result.
+ *
+ * @returns A deferred object exposing the promise, `resolve`, `reject` and the settled state.
+ *
+ * @example
+ * ```ts
+ * const confirmation = createDeferred<boolean>();
+ *
+ * openDialog({
+ *   onConfirm: () => confirmation.resolve(true),
+ *   onCancel: () => confirmation.resolve(false),
+ * });
+ *
+ * const isConfirmed = await confirmation.promise;
+ * ```
+ */
+export const createDeferred = <T = void>(): Deferred<T> => {
+  let resolvePromise: (value: T) => void;
+  let rejectPromise: (reason?: unknown) => void;
+
+  let status: DeferredStatus = 'pending';
+  let isLocked = false;
+
+  const promise = new Promise<T>((resolve, reject) => {
+    resolvePromise = resolve;
+    rejectPromise = reject;
+  });
+
+  const fulfill = (value: T) => {
+    status = 'fulfilled';
+
+    resolvePromise(value);
+  };
+
+  const fail = (reason?: unknown) => {
+    status = 'rejected';
+
+    rejectPromise(reason);
+  };
+
+  return {
+    promise,
+    resolve: value => {
+      if (isLocked) {
+        return;
+      }
+
+      isLocked = true;
+
+      if (isPromise<T>(value)) {
+        value.then(fulfill, fail);
+      } else {
+        fulfill(value as T);
+      }
+    },
+    reject: reason => {
+      if (isLocked) {
+        return;
+      }
+
+      isLocked = true;
+
+      fail(reason);
+    },
+    get status() {
+      return status;
+    },
+    get isSettled() {
+      return status !== 'pending';
+    },
+  };
+};
@@ -1,9 +1,13 @@
+import type { AbortableOptions } from '~/async';
+import { createAbortError } from '~/async';
+
 /**
  * Creates a promise that resolves after the specified delay.
  *
  * Useful for creating artificial delays, implementing timeouts, or spacing operations.
  *
  * @param delayMs - The delay in milliseconds.
+ * @param options - Optional settings such as an abort signal.
  *
  * @returns A promise that resolves after the specified delay.
  *
@@ -21,7 +25,32 @@
  *
  *   return Promise.race([fetchData(), timeoutPromise]);
  * }
+ *
+ * // Cancel a pending delay
+ * const controller = new AbortController();
+ *
+ * delay(1000, { signal: controller.signal }).catch(e => console.log(e.name)); // 'AbortError'
+ * controller.abort();
  * ```
  */
-export const delay = (delayMs: number): Promise<void> =>
-  new Promise(resolve => setTimeout(resolve, delayMs));
+export const delay = (delayMs: number, { signal }: AbortableOptions = {}): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+
+      reject(createAbortError(signal));
+    };
+
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+
+      resolve();
+    }, delayMs);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
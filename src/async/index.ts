@@ -1,4 +1,12 @@
+export * from './abort';
 export * from './async';
 export * from './delay';
 export * from './timeout';
+export * from './backoff';
 export * from './retry';
+export * from './pool';
+export * from './task-queue';
+export * from './deferred';
+export * from './semaphore';
+export * from './poll';
+export * from './async-iterable';
@@ -0,0 +1,182 @@
+import type { AbortableOptions, BackoffJitter } from '~/async';
+import {
+  TimeoutError,
+  calculateBackoffDelay,
+  delay,
+  raceWithAbortSignal,
+  throwIfAborted,
+  timeout,
+} from '~/async';
+
+/**
+ * Error used to reject {@link poll} when the condition is not satisfied before the deadline.
+ */
+export class PollTimeoutError extends TimeoutError {
+  /**
+   * Number of completed task invocations.
+   */
+  readonly attempts: number;
+  /**
+   * Value returned by the last completed task invocation, if any.
+   */
+  readonly lastValue: unknown;
+
+  constructor(attempts: number, lastValue: unknown, message = 'Polling timed out') {
+    super(message);
+
+    this.name = 'PollTimeoutError';
+    this.attempts = attempts;
+    this.lastValue = lastValue;
+  }
+}
+
+/**
+ * Checks if a value is a {@link PollTimeoutError}.
+ *
+ * @param value - The value to check.
+ *
+ * @returns `true` if the value is a `PollTimeoutError`; otherwise, `false`.
+ */
+export const isPollTimeoutError = (value: unknown): value is PollTimeoutError =>
+  value instanceof PollTimeoutError;
+
+interface PollOptions<Value> extends AbortableOptions {
+  /**
+   * Predicate deciding whether polling is complete.
+   *
+   * @param value - The value returned by the latest task invocation.
+   * @param attempt - The attempt number (starting from 1).
+   */
+  until: (value: Value, attempt: number) => boolean;
+  /**
+   * Interval in milliseconds between task invocations.
+   * If `backoff` is true, this is the base interval for exponential backoff.
+   *
+   * @default 1000
+   */
+  intervalMs?: number;
+  /**
+   * Whether to use exponential backoff for intervals.
+   * When enabled, the interval is multiplied by 2 ^ (`attempt` - 1).
+   *
+   * @default false
+   */
+  backoff?: boolean;
+  /**
+   * Upper bound for a single interval in milliseconds.
+   *
+   * @default Infinity
+   */
+  maxIntervalMs?: number;
+  /**
+   * Randomization strategy applied to intervals.
+   *
+   * @default 'none'
+   */
+  jitter?: BackoffJitter;
+  /**
+   * Overall time budget in milliseconds.
+   *
+   * Polling fails with a `PollTimeoutError` when a task invocation is still running once the
+   * budget is spent, or when the next invocation would be scheduled past it.
+   *
+   * @default Infinity
+   */
+  timeoutMs?: number;
+  /**
+   * Optional callback triggered after every task invocation.
+   *
+   * @param value - The value returned by the task.
+   * @param attempt - The attempt number (starting from 1).
+   */
+  onTick?: (value: Value, attempt: number) => void;
+}
+
+const TIMED_OUT = Symbol('timedOut');
+
+/**
+ * Repeatedly invokes an async task until its result satisfies the `until` predicate.
+ *
+ * Intervals between invocations are fixed by default and can grow exponentially, using the
+ * same backoff math as {@link retry}. Errors thrown by the task stop polling immediately.
+ *
+ * @template Value - The type of the value returned by the task.
+ *
+ * @param task - The async task to invoke on every tick.
+ * @param options - Polling settings such as the stop condition, intervals and deadline.
+ *
+ * @returns A promise that resolves with the first value satisfying the predicate.
+ *
+ * @throws {PollTimeoutError} When the predicate is not satisfied before `timeoutMs`.
+ *
+ * @example
+ * ```ts
+ * const job = await poll(() => fetchJobStatus(jobId), {
+ *   until: job => job.status === 'done',
+ *   intervalMs: 500,
+ *   backoff: true,
+ *   maxIntervalMs: 5000,
+ *   timeoutMs: 60_000,
+ *   onTick: job => setProgress(job.progress),
+ * });
+ * ```
+ */
+export const poll = async <Value>(
+  task: (attempt: number) => Promise<Value>,
+  {
+    until,
+    intervalMs = 1000,
+    backoff = false,
+    maxIntervalMs = Infinity,
+    jitter = 'none',
+    timeoutMs = Infinity,
+    onTick,
+    signal,
+  }: PollOptions<Value>,
+): Promise<Value> => {
+  const startTime = Date.now();
+  const getRemainingMs = () => timeoutMs - (Date.now() - startTime);
+
+  let previousDelayMs = intervalMs;
+  let lastValue: Value | undefined;
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+
+    const remainingMs = getRemainingMs();
+
+    const value = await (isFinite(remainingMs)
+      ? timeout<Value | typeof TIMED_OUT>(task(attempt), remainingMs, {
+          fallback: TIMED_OUT,
+          signal,
+        })
+      : raceWithAbortSignal(task(attempt), signal));
+
+    if (value === TIMED_OUT) {
+      throw new PollTimeoutError(attempt - 1, lastValue);
+    }
+
+    lastValue = value;
+    onTick?.(value, attempt);
+
+    if (until(value, attempt)) {
+      return value;
+    }
+
+    const nextDelayMs = calculateBackoffDelay({
+      attempt,
+      delayMs: intervalMs,
+      backoff,
+      maxDelayMs: maxIntervalMs,
+      jitter,
+      previousDelayMs,
+    });
+
+    if (nextDelayMs >= getRemainingMs()) {
+      throw new PollTimeoutError(attempt, lastValue);
+    }
+
+    previousDelayMs = nextDelayMs;
+    await delay(nextDelayMs, { signal });
+  }
+};
@@ -0,0 +1,244 @@
+import type { Nullable } from '~/types';
+import type { AbortableOptions } from '~/async';
+import { assert } from '~/guards';
+import { BatchError, raceWithAbortSignal, throwIfAborted } from '~/async';
+
+export interface PoolProgress {
+  /**
+   * Index of the item whose task has just settled.
+   */
+  index: number;
+  /**
+   * Number of tasks settled so far (fulfilled or rejected).
+   */
+  settledCount: number;
+  /**
+   * Total number of items in the input array.
+   */
+  total: number;
+}
+
+export interface PoolOptions extends AbortableOptions {
+  /**
+   * Maximum number of tasks running at the same time.
+   *
+   * Must be greater than or equal to `1`. Use `Infinity` for unbounded concurrency.
+   */
+  concurrency: number;
+  /**
+   * Whether to reject as soon as the first task fails.
+   *
+   * - `true` → the pool rejects with the first error and no further tasks are started.
+   * - `false` → all tasks are executed and, if any fail, the pool rejects with a
+   *   `BatchError` containing every failure and its item index, in item order.
+   *
+   * @default true
+   */
+  stopOnError?: boolean;
+  /**
+   * Optional callback invoked every time a task settles.
+   *
+   * @param progress - Current progress of the pool.
+   */
+  onProgress?: (progress: PoolProgress) => void;
+}
+
+/**
+ * Runs the pool workers and collects results by item index.
+ *
+ * @param shouldStop - Optional check that stops scheduling further items once it returns `true`.
+ */
+const executePool = async <Item, Result>(
+  array: Item[],
+  fn: (item: Item, index: number, array: Item[]) => Promise<Result>,
+  { concurrency, stopOnError = true, onProgress, signal }: PoolOptions,
+  shouldStop?: (result: Result) => boolean,
+): Promise<Result[]> => {
+  assert(concurrency >= 1, 'Concurrency must be greater than or equal to 1');
+
+  throwIfAborted(signal);
+
+  const results: Result[] = new Array(array.length);
+  const errors: { index: number; error: unknown }[] = [];
+
+  let nextIndex = 0;
+  let settledCount = 0;
+  let isStopped = false;
+
+  const runWorker = async () => {
+    while (!isStopped && !signal?.aborted && nextIndex < array.length) {
+      const index = nextIndex++;
+
+      try {
+        results[index] = await fn(array[index], index, array);
+
+        if (shouldStop?.(results[index])) {
+          isStopped = true;
+        }
+      } catch (e) {
+        if (stopOnError) {
+          isStopped = true;
+
+          throw e;
+        }
+
+        errors.push({ index, error: e });
+      } finally {
+        settledCount++;
+
+        onProgress?.({ index, settledCount, total: array.length });
+      }
+    }
+  };
+
+  const workersCount = Math.min(concurrency, array.length);
+
+  await raceWithAbortSignal(Promise.all(Array.from({ length: workersCount }, runWorker)), signal);
+
+  if (errors.length) {
+    errors.sort((a, b) => a.index - b.index);
+
+    throw new BatchError(
+      errors.map(({ error }) => error),
+      errors.map(({ index }) => index),
+      `${errors.length} of ${array.length} tasks failed`,
+    );
+  }
+
+  return results;
+};
+
+/**
+ * Executes an asynchronous operation on each element of an array with **bounded concurrency**.
+ *
+ * At most `concurrency` operations run at the same time. As soon as one settles, the next
+ * item is started. Results are returned in the original item order, regardless of the order
+ * in which operations complete.
+ *
+ * Useful for bulk operations that would otherwise trip rate limits, such as uploading
+ * hundreds of files at once.
+ *
+ * @template Item - The type of the items in the input array.
+ * @template Result - The type of the operation result.
+ *
+ * @param array - The array of items to operate on.
+ * @param fn - The asynchronous operation to perform on each item.
+ * @param options - Pool settings such as concurrency, error handling and progress reporting.
+ *
+ * @returns A promise that resolves with an array of results in item order.
+ *
+ * @example
+ * ```ts
+ * const responses = await runPool(files, file => uploadFile(file), {
+ *   concurrency: 4,
+ *   onProgress: ({ settledCount, total }) => {
+ *     console.log(`${settledCount}/${total} uploaded`);
+ *   },
+ * });
+ * ```
+ */
+export const runPool = async <Item, Result>(
+  array: Item[],
+  fn: (item: Item, index: number, array: Item[]) => Promise<Result>,
+  options: PoolOptions,
+): Promise<Result[]> => executePool(array, fn, options);
+
+/**
+ * Asynchronously filters an array using a predicate function with **bounded concurrency**.
+ *
+ * @template Item - The type of the items in the input array.
+ *
+ * @param array - The array of items to filter.
+ * @param predicate - An async function that returns a boolean indicating whether to keep each item.
+ * @param options - Pool settings such as concurrency, error handling and progress reporting.
+ *
+ * @returns A promise that resolves to a new array containing only the items for which the predicate returned `true`.
+ *
+ * @example
+ * ```ts
+ * const existingFiles = await filterPool(paths, path => fileExists(path), { concurrency: 8 });
+ * ```
+ */
+export const filterPool = async <Item>(
+  array: Item[],
+  predicate: (item: Item, index: number, array: Item[]) => Promise<boolean>,
+  options: PoolOptions,
+): Promise<Item[]> => {
+  const matches = await executePool(array, predicate, options);
+
+  return array.filter((_, index) => matches[index]);
+};
+
+/**
+ * Asynchronously checks if at least one element in the array satisfies the async condition,
+ * running predicates with **bounded concurrency**.
+ *
+ * No further predicates are started once a match is found.
+ *
+ * @param array - The array of items to check.
+ * @param predicate - An async function that returns a boolean.
+ * @param options - Pool settings such as concurrency, error handling and progress reporting.
+ *
+ * @returns A promise that resolves to true if any item passes the condition.
+ */
+export const somePool = async <Item>(
+  array: Item[],
+  predicate: (item: Item, index: number, array: Item[]) => Promise<boolean>,
+  options: PoolOptions,
+): Promise<boolean> => {
+  const matches = await executePool(array, predicate, options, isMatched => isMatched);
+
+  return matches.some(Boolean);
+};
+
+/**
+ * Asynchronously checks if all elements in the array satisfy the async condition,
+ * running predicates with **bounded concurrency**.
+ *
+ * No further predicates are started once a mismatch is found.
+ *
+ * @param array - The array of items to check.
+ * @param predicate - An async function that returns a boolean.
+ * @param options - Pool settings such as concurrency, error handling and progress reporting.
+ *
+ * @returns A promise that resolves to true if all items pass the condition.
+ */
+export const everyPool = async <Item>(
+  array: Item[],
+  predicate: (item: Item, index: number, array: Item[]) => Promise<boolean>,
+  options: PoolOptions,
+): Promise<boolean> => {
+  let isMismatched = false;
+
+  await executePool(array, predicate, options, isMatched => {
+    isMismatched ||= !isMatched;
+
+    return isMismatched;
+  });
+
+  return !isMismatched;
+};
+
+/**
+ * Asynchronously finds the first element that satisfies the async condition,
+ * running predicates with **bounded concurrency**.
+ *
+ * No further predicates are started once a match is found. In-flight predicates for
+ * earlier items are still awaited, so the result is always the match with the lowest index.
+ *
+ * @param array - The array of items to search.
+ * @param predicate - An async function that returns a boolean.
+ * @param options - Pool settings such as concurrency, error handling and progress reporting.
+ *
+ * @returns A promise that resolves to the found item or null if none match.
+ */
+export const findPool = async <Item>(
+  array: Item[],
+  predicate: (item: Item, index: number, array: Item[]) => Promise<boolean>,
+  options: PoolOptions,
+): Promise<Nullable<Item>> => {
+  const matches = await executePool(array, predicate, options, isMatched => isMatched);
+  const matchIndex = matches.findIndex(Boolean);
+
+  return matchIndex === -1 ? null : array[matchIndex];
+};
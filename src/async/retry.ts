@@ -1,26 +1,48 @@
-import { delay } from '~/async';
+import type { AbortableOptions, BackoffOptions } from '~/async';
+import { assert } from '~/guards';
+import {
+  calculateBackoffDelay,
+  delay,
+  raceWithAbortSignal,
+  throwIfAborted,
+  timeout,
+} from '~/async';
 
-interface RetryOptions {
+export interface RetryOptions extends AbortableOptions, BackoffOptions {
   /**
-   * Maximum number of retry attempts before failing.
+   * Maximum number of retry attempts before failing. Must be at least `1`.
    *
    * @default 3
    */
   maxAttempts?: number;
   /**
-   * Delay in milliseconds between retry attempts.
-   * If `backoff` is true, this is the base delay for exponential backoff.
+   * Overall time budget in milliseconds for all attempts and delays combined.
    *
-   * @default 300
+   * No further attempt is scheduled when the next delay would exceed the budget,
+   * and the running attempt is timed out once the budget is spent.
+   *
+   * @default Infinity
+   */
+  deadlineMs?: number;
+  /**
+   * Maximum duration of a single attempt in milliseconds.
+   *
+   * An attempt exceeding this duration fails with a `TimeoutError` and may be retried.
+   *
+   * @default Infinity
    */
-  delayMs?: number;
+  attemptTimeoutMs?: number;
   /**
-   * Whether to use exponential backoff for delays between attempts.
-   * When enabled, the delay is multiplied by 2 ^ (`attempt` - 1).
+   * Predicate deciding whether a failed attempt should be retried.
+   *
+   * Useful to skip retries for non-transient failures (e.g. 4xx responses).
    *
-   * @default true
+   * @param error - The error that caused the attempt to fail.
+   * @param attempt - The failed attempt number (starting from 1).
+   *
+   * @default () => true
    */
-  backoff?: boolean;
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
   /**
    * Optional callback triggered before each retry attempt.
    *
@@ -28,6 +50,16 @@ interface RetryOptions {
    * @param error - The error that caused the retry.
    */
   onRetry?: (attempt: number, error: unknown) => void;
+  /**
+   * Optional callback triggered once no further attempts will be made,
+   * right before the last error is thrown.
+   *
+   * Not triggered when the operation is aborted.
+   *
+   * @param error - The last encountered error.
+   * @param attempt - The number of attempts made.
+   */
+  onGiveUp?: (error: unknown, attempt: number) => void;
 }
 
 /**
@@ -36,6 +68,12 @@ interface RetryOptions {
  * The returned function will attempt to call the original function up to `maxAttempts` times,
  * with a delay between retries. If all attempts fail, the last encountered error is thrown.
  *
+ * Retrying also stops when `shouldRetry` rejects the error or when the next delay would
+ * exceed `deadlineMs`.
+ *
+ * When `signal` is aborted, the pending delay is cleared, no further attempts are made,
+ * and the returned promise rejects with an `AbortError`.
+ *
  * Useful for operations that may fail intermittently, such as network requests.
  *
  * @template Task - The type of the async function to wrap.
@@ -46,6 +84,8 @@ interface RetryOptions {
  *
  * @returns A function that wraps the original function with retry support.
  *
+ * @throws {Error} If `maxAttempts` is less than `1`.
+ *
  * @example
  * ```ts
  * async function fetchData() {
@@ -66,6 +106,16 @@ interface RetryOptions {
  *   }
  * });
  *
+ * // Full jitter capped at 5 seconds, skipping client errors
+ * const fetchWithPolicy = retry(fetchData, {
+ *   maxAttempts: 10,
+ *   jitter: 'full',
+ *   maxDelayMs: 5000,
+ *   deadlineMs: 30000,
+ *   attemptTimeoutMs: 3000,
+ *   shouldRetry: error => !(error instanceof HttpError && error.status < 500),
+ * });
+ *
  * fetchWithRetry()
  *   .then(data => console.log('Success:', data))
  *   .catch(error => console.error('Failed after retries:', error));
@@ -73,26 +123,63 @@ interface RetryOptions {
  */
 export const retry = <Task extends (...args: unknown[]) => Promise<TaskResult>, TaskResult>(
   task: Task,
-  { maxAttempts = 3, delayMs = 300, backoff = true, onRetry }: RetryOptions = {},
+  {
+    maxAttempts = 3,
+    delayMs = 300,
+    backoff = true,
+    maxDelayMs = Infinity,
+    jitter = 'none',
+    deadlineMs = Infinity,
+    attemptTimeoutMs = Infinity,
+    shouldRetry = () => true,
+    onRetry,
+    onGiveUp,
+    signal,
+  }: RetryOptions = {},
 ): ((...args: Parameters<Task>) => Promise<TaskResult>) => {
+  assert(
+    maxAttempts >= 1,
+    '[@react-hive/honey-utils]: Max attempts must be greater than or equal to 1.',
+  );
+
   return async (...args: Parameters<Task>): Promise<TaskResult> => {
-    let lastError: unknown;
+    const startTime = Date.now();
+    let previousDelayMs = delayMs;
+
+    for (let attempt = 1; ; attempt++) {
+      throwIfAborted(signal);
 
-    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
       try {
-        return await task(...args);
+        const timeoutMs = Math.min(attemptTimeoutMs, deadlineMs - (Date.now() - startTime));
+
+        return await (isFinite(timeoutMs)
+          ? timeout(task(...args), timeoutMs, { errorMessage: 'Retry attempt timed out', signal })
+          : raceWithAbortSignal(task(...args), signal));
       } catch (e) {
-        lastError = e;
+        throwIfAborted(signal);
+
+        const nextDelayMs = calculateBackoffDelay({
+          attempt,
+          delayMs,
+          backoff,
+          maxDelayMs,
+          jitter,
+          previousDelayMs,
+        });
+
+        const isDeadlineExceeded = Date.now() - startTime + nextDelayMs >= deadlineMs;
 
-        if (attempt < maxAttempts) {
-          onRetry?.(attempt, e);
+        if (attempt >= maxAttempts || isDeadlineExceeded || !shouldRetry(e, attempt)) {
+          onGiveUp?.(e, attempt);
 
-          const delayTime = backoff ? delayMs * 2 ** (attempt - 1) : delayMs;
-          await delay(delayTime);
+          throw e;
         }
+
+        onRetry?.(attempt, e);
+
+        previousDelayMs = nextDelayMs;
+        await delay(nextDelayMs, { signal });
       }
     }
-
-    throw lastError;
   };
 };
@@ -0,0 +1,201 @@
+import type { AbortableOptions, Deferred } from '~/async';
+import { assert } from '~/guards';
+import { createDeferred, raceWithAbortSignal, throwIfAborted, timeout } from '~/async';
+
+export interface AcquireOptions extends AbortableOptions {
+  /**
+   * Maximum time in milliseconds to wait for a permit.
+   *
+   * When exceeded, the acquisition rejects with a `TimeoutError`.
+   *
+   * @default Infinity
+   */
+  timeoutMs?: number;
+}
+
+export interface Semaphore {
+  /**
+   * Waits until a permit is available and takes it.
+   *
+   * Waiting callers are served in FIFO order.
+   *
+   * @param options - Acquisition timeout and abort signal.
+   */
+  acquire: (options?: AcquireOptions) => Promise<void>;
+  /**
+   * Takes a permit only if one is immediately available.
+   *
+   * @returns `true` if a permit was taken; otherwise, `false`.
+   */
+  tryAcquire: () => boolean;
+  /**
+   * Returns a permit, handing it over to the next waiting caller if any.
+   */
+  release: () => void;
+  /**
+   * Acquires a permit, runs the task and releases the permit once the task settles.
+   *
+   * @param task - The task to run while holding a permit.
+   * @param options - Acquisition timeout and abort signal.
+   *
+   * @returns A promise that settles with the task result.
+   */
+  runExclusive: <Result>(
+    task: () => Promise<Result> | Result,
+    options?: AcquireOptions,
+  ) => Promise<Result>;
+  /**
+   * Number of permits that can be acquired immediately.
+   */
+  readonly availablePermits: number;
+  /**
+   * Number of callers waiting for a permit.
+   */
+  readonly waitingCount: number;
+}
+
+/**
+ * Creates a counting semaphore that limits how many callers may hold a permit at the same time.
+ *
+ * @param permits - Total number of permits. Must be greater than or equal to `1`.
+ *
+ * @returns A semaphore instance.
+ *
+ * @example
+ * ```ts
+ * const semaphore = createSemaphore(2);
+ *
+ * // At most 2 previews are generated at the same time
+ * const previews = await runParallel(files, file =>
+ *   semaphore.runExclusive(() => generatePreview(file)),
+ * );
+ *
+ * // Give up if no permit is available within 1 second
+ * await semaphore.acquire({ timeoutMs: 1000 });
+ * ```
+ */
+export const createSemaphore = (permits: number): Semaphore => {
+  assert(permits >= 1, 'Permits must be greater than or equal to 1');
+
+  const waiters: Deferred<void>[] = [];
+
+  let availablePermits = permits;
+
+  const tryAcquire = () => {
+    if (availablePermits > 0) {
+      availablePermits--;
+
+      return true;
+    }
+
+    return false;
+  };
+
+  const release = () => {
+    const waiter = waiters.shift();
+
+    if (waiter) {
+      // The permit is handed over directly, so it cannot be taken by `tryAcquire` in between
+      waiter.resolve();
+      return;
+    }
+
+    assert(availablePermits < permits, 'Semaphore was released more times than acquired');
+
+    availablePermits++;
+  };
+
+  const acquire = async ({ timeoutMs = Infinity, signal }: AcquireOptions = {}) => {
+    throwIfAborted(signal);
+
+    if (tryAcquire()) {
+      return;
+    }
+
+    const waiter = createDeferred();
+    waiters.push(waiter);
+
+    try {
+      await (isFinite(timeoutMs)
+        ? timeout(waiter.promise, timeoutMs, {
+            errorMessage: 'Semaphore acquisition timed out',
+            signal,
+          })
+        : raceWithAbortSignal(waiter.promise, signal));
+    } catch (e) {
+      const waiterIndex = waiters.indexOf(waiter);
+
+      if (waiterIndex !== -1) {
+        waiters.splice(waiterIndex, 1);
+      } else if (waiter.status === 'fulfilled') {
+        // The permit was handed over at the same time the wait failed
+        release();
+      }
+
+      throw e;
+    }
+  };
+
+  return {
+    acquire,
+    tryAcquire,
+    release,
+    runExclusive: async (task, options) => {
+      await acquire(options);
+
+      try {
+        return await task();
+      } finally {
+        release();
+      }
+    },
+    get availablePermits() {
+      return availablePermits;
+    },
+    get waitingCount() {
+      return waiters.length;
+    },
+  };
+};
+
+export interface Mutex extends Omit<Semaphore, 'availablePermits'> {
+  /**
+   * Whether the mutex is currently held.
+   */
+  readonly isLocked: boolean;
+}
+
+/**
+ * Creates a mutual exclusion lock, i.e. a semaphore with a single permit.
+ *
+ * @returns A mutex instance.
+ *
+ * @example
+ * ```ts
+ * const mutex = createMutex();
+ *
+ * // Writes never interleave, even when triggered concurrently
+ * const saveDraft = (draft: Draft) =>
+ *   mutex.runExclusive(async () => {
+ *     const drafts = await loadDrafts();
+ *
+ *     await storeDrafts([...drafts, draft]);
+ *   });
+ * ```
+ */
+export const createMutex = (): Mutex => {
+  const semaphore = createSemaphore(1);
+
+  return {
+    acquire: semaphore.acquire,
+    tryAcquire: semaphore.tryAcquire,
+    release: semaphore.release,
+    runExclusive: semaphore.runExclusive,
+    get waitingCount() {
+      return semaphore.waitingCount;
+    },
+    get isLocked() {
+      return semaphore.availablePermits === 0;
+    },
+  };
+};
@@ -0,0 +1,256 @@
+import type { AbortableOptions } from '~/async';
+import { assert } from '~/guards';
+import { AbortError, createAbortError, raceWithAbortSignal } from '~/async';
+
+export interface TaskQueueOptions {
+  /**
+   * Maximum number of tasks running at the same time.
+   *
+   * Must be greater than or equal to `1`. Use `Infinity` for unbounded concurrency.
+   *
+   * @default 1
+   */
+  concurrency?: number;
+  /**
+   * Whether tasks start running as soon as they are added.
+   *
+   * When `false`, the queue is created paused and must be started with `resume()`.
+   *
+   * @default true
+   */
+  autoStart?: boolean;
+}
+
+export interface EnqueueTaskOptions extends AbortableOptions {
+  /**
+   * Priority of the task. Tasks with a higher priority run first.
+   * Tasks with the same priority run in insertion order.
+   *
+   * @default 0
+   */
+  priority?: number;
+}
+
+export interface TaskQueue {
+  /**
+   * Adds a task to the queue.
+   *
+   * Aborting the task `signal` removes a waiting task from the queue. For an already running
+   * task, the returned promise rejects immediately, while its concurrency slot is released
+   * once the task itself settles.
+   *
+   * @param task - The async task to run.
+   * @param options - Task priority and abort signal.
+   *
+   * @returns A promise that settles with the task result.
+   */
+  add: <Result>(task: () => Promise<Result>, options?: EnqueueTaskOptions) => Promise<Result>;
+  /**
+   * Stops starting new tasks. Running tasks are not affected.
+   */
+  pause: () => void;
+  /**
+   * Resumes starting tasks after `pause()`, or starts a queue created with `autoStart: false`.
+   */
+  resume: () => void;
+  /**
+   * Removes all waiting tasks and rejects their promises with an `AbortError`.
+   */
+  clear: () => void;
+  /**
+   * Resumes the queue and waits until all waiting and running tasks have completed.
+   */
+  drain: () => Promise<void>;
+  /**
+   * Returns a promise that resolves once no tasks are waiting. Tasks may still be running.
+   */
+  onEmpty: () => Promise<void>;
+  /**
+   * Returns a promise that resolves once no tasks are waiting or running.
+   */
+  onIdle: () => Promise<void>;
+  /**
+   * Number of tasks waiting to be started.
+   */
+  readonly size: number;
+  /**
+   * Number of tasks currently running.
+   */
+  readonly runningCount: number;
+  /**
+   * Whether the queue is paused.
+   */
+  readonly isPaused: boolean;
+}
+
+interface QueuedTask {
+  priority: number;
+  run: () => void;
+  cancel: (reason: unknown) => void;
+}
+
+/**
+ * Creates a long-lived queue that runs async tasks with a concurrency limit and priorities.
+ *
+ * Unlike {@link runSequential} or {@link runPool}, tasks can be added over time. The queue can be
+ * paused and resumed, and consumers can wait for it to become empty or idle.
+ *
+ * Useful for serializing writes (e.g. to `localStorage`) or throttling uploads produced at
+ * different moments.
+ *
+ * @param options - Queue settings such as concurrency and auto start.
+ *
+ * @returns A task queue instance.
+ *
+ * @example
+ * ```ts
+ * const uploadQueue = createTaskQueue({ concurrency: 3 });
+ *
+ * const files = await readFilesFromDataTransfer(event.dataTransfer);
+ *
+ * files.forEach(file => {
+ *   uploadQueue.add(() => uploadFile(file), { priority: file.size < 1024 ? 1 : 0 });
+ * });
+ *
+ * await uploadQueue.onIdle();
+ * ```
+ */
+export const createTaskQueue = ({
+  concurrency = 1,
+  autoStart = true,
+}: TaskQueueOptions = {}): TaskQueue => {
+  assert(concurrency >= 1, 'Concurrency must be greater than or equal to 1');
+
+  const queuedTasks: QueuedTask[] = [];
+
+  let runningCount = 0;
+  let isPaused = !autoStart;
+  let emptyListeners: (() => void)[] = [];
+  let idleListeners: (() => void)[] = [];
+
+  const notifyListeners = () => {
+    if (queuedTasks.length) {
+      return;
+    }
+
+    const listeners = runningCount ? emptyListeners : [...emptyListeners, ...idleListeners];
+
+    emptyListeners = [];
+
+    if (!runningCount) {
+      idleListeners = [];
+    }
+
+    listeners.forEach(listener => listener());
+  };
+
+  const processQueue = () => {
+    while (!isPaused && runningCount < concurrency && queuedTasks.length) {
+      (queuedTasks.shift() as QueuedTask).run();
+    }
+
+    notifyListeners();
+  };
+
+  const removeQueuedTask = (queuedTask: QueuedTask) => {
+    const taskIndex = queuedTasks.indexOf(queuedTask);
+
+    if (taskIndex !== -1) {
+      queuedTasks.splice(taskIndex, 1);
+    }
+  };
+
+  const onIdle = () =>
+    !queuedTasks.length && !runningCount
+      ? Promise.resolve()
+      : new Promise<void>(resolve => idleListeners.push(resolve));
+
+  return {
+    add: <Result>(task: () => Promise<Result>, { priority = 0, signal }: EnqueueTaskOptions = {}) =>
+      new Promise<Result>((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(createAbortError(signal));
+          return;
+        }
+
+        const onAbort = () => {
+          removeQueuedTask(queuedTask);
+          reject(createAbortError(signal));
+
+          notifyListeners();
+        };
+
+        const onTaskSettled = () => {
+          runningCount--;
+
+          processQueue();
+        };
+
+        const queuedTask: QueuedTask = {
+          priority,
+          run: () => {
+            signal?.removeEventListener('abort', onAbort);
+
+            runningCount++;
+
+            // The executor runs synchronously and turns thrown errors into rejections
+            const taskPromise = new Promise<Result>(resolve => resolve(task()));
+
+            raceWithAbortSignal(taskPromise, signal).then(resolve, reject);
+            taskPromise.then(onTaskSettled, onTaskSettled);
+          },
+          cancel: reason => {
+            signal?.removeEventListener('abort', onAbort);
+
+            reject(reason);
+          },
+        };
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        const insertIndex = queuedTasks.findIndex(
+          otherQueuedTask => otherQueuedTask.priority < priority,
+        );
+
+        queuedTasks.splice(insertIndex === -1 ? queuedTasks.length : insertIndex, 0, queuedTask);
+
+        processQueue();
+      }),
+    pause: () => {
+      isPaused = true;
+    },
+    resume: () => {
+      isPaused = false;
+
+      processQueue();
+    },
+    clear: () => {
+      queuedTasks
+        .splice(0)
+        .forEach(queuedTask => queuedTask.cancel(new AbortError('The queued task was cleared')));
+
+      notifyListeners();
+    },
+    drain: () => {
+      isPaused = false;
+
+      processQueue();
+
+      return onIdle();
+    },
+    onEmpty: () =>
+      queuedTasks.length
+        ? new Promise<void>(resolve => emptyListeners.push(resolve))
+        : Promise.resolve(),
+    onIdle,
+    get size() {
+      return queuedTasks.length;
+    },
+    get runningCount() {
+      return runningCount;
+    },
+    get isPaused() {
+      return isPaused;
+    },
+  };
+};
@@ -1,15 +1,60 @@
 import type { Nullable, TimeoutId } from '~/types';
-import { delay } from '~/async';
+import type { AbortableOptions } from '~/async';
+import { isFunction, noop } from '~/function';
+import { isString } from '~/string';
+import { raceWithAbortSignal, throwIfAborted } from '~/async';
+
+/**
+ * Error used to reject {@link timeout} when the wrapped operation exceeds its duration.
+ */
+export class TimeoutError extends Error {
+  constructor(message = 'Operation timed out', options?: ErrorOptions) {
+    super(message, options);
+
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Checks if a value is a {@link TimeoutError}.
+ *
+ * @param value - The value to check.
+ *
+ * @returns `true` if the value is a `TimeoutError`; otherwise, `false`.
+ */
+export const isTimeoutError = (value: unknown): value is TimeoutError =>
+  value instanceof TimeoutError;
+
+interface TimeoutOptions<T> extends AbortableOptions {
+  /**
+   * Message of the `TimeoutError` thrown when the duration is exceeded.
+   *
+   * @default 'Operation timed out'
+   */
+  errorMessage?: string;
+  /**
+   * Value to resolve with instead of rejecting when the duration is exceeded.
+   *
+   * Only applied when the property is present in the options object.
+   */
+  fallback?: T;
+}
 
 /**
  * Wraps a promise with a timeout. If the promise does not settle within the specified time,
- * it will reject with a timeout error.
+ * it will reject with a {@link TimeoutError}, or resolve with the `fallback` value when provided.
+ *
+ * Instead of a promise, a factory can be passed. It receives an `AbortSignal` that is aborted
+ * when the timeout elapses (or the outer `signal` is aborted), allowing the wrapped work itself
+ * to be cancelled.
+ *
+ * The internal timer is always cleared once the returned promise settles.
  *
  * @template T - The type of the promise result.
  *
- * @param promise - The promise to wrap.
+ * @param promise - The promise to wrap, or a factory creating it from an abort signal.
  * @param timeoutMs - Timeout duration in milliseconds.
- * @param errorMessage - Optional custom error message.
+ * @param options - Optional custom error message, or timeout settings.
  *
  * @returns A promise that resolves or rejects with the original promise,
  *          or rejects with a timeout error if the duration is exceeded.
@@ -21,23 +66,59 @@ import { delay } from '~/async';
  *
  * // With custom message
  * await timeout(fetchData(), 2000, 'Too long');
+ *
+ * // Cancel the request itself when it takes too long
+ * await timeout(signal => fetch('/api/data', { signal }), 3000);
+ *
+ * // Resolve with a fallback value instead of rejecting
+ * const items = await timeout(fetchItems(), 2000, { fallback: [] });
  * ```
  */
 export const timeout = async <T>(
-  promise: Promise<T>,
+  promise: Promise<T> | ((signal: AbortSignal) => Promise<T>),
   timeoutMs: number,
-  errorMessage = 'Operation timed out',
+  options: string | TimeoutOptions<T> = {},
 ): Promise<T> => {
-  const timeoutId: Nullable<TimeoutId> = null;
+  const timeoutOptions = isString(options) ? { errorMessage: options } : options;
+  const { errorMessage = 'Operation timed out', signal } = timeoutOptions;
+
+  if (signal?.aborted && !isFunction(promise)) {
+    // The passed promise is never awaited, so keep its rejection handled
+    promise.catch(noop);
+  }
+
+  throwIfAborted(signal);
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  let timeoutId: Nullable<TimeoutId> = null;
 
   try {
     return await Promise.race([
-      promise,
-      delay(timeoutMs).then(() => Promise.reject(new Error(errorMessage))),
+      raceWithAbortSignal(isFunction(promise) ? promise(controller.signal) : promise, signal),
+      new Promise<T>((resolve, reject) => {
+        timeoutId = setTimeout(() => {
+          const error = new TimeoutError(errorMessage);
+
+          if ('fallback' in timeoutOptions) {
+            resolve(timeoutOptions.fallback as T);
+          } else {
+            reject(error);
+          }
+
+          // Settle first, so the rejection of the cancelled work does not win the race
+          controller.abort(error);
+        }, timeoutMs);
+      }),
     ]);
   } finally {
     if (timeoutId) {
       clearTimeout(timeoutId);
     }
+
+    signal?.removeEventListener('abort', onAbort);
   }
 };
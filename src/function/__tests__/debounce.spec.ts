@@ -0,0 +1,170 @@
+import { AbortError } from '~/async';
+import { debounce, debounceAsync } from '~/function';
+
+describe('[debounce]: delay invocations until calls stop', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should invoke once on the trailing edge with the latest arguments', () => {
+    const fn = vi.fn((value: number) => value * 2);
+    const debounced = debounce(fn, 100);
+
+    debounced(1);
+    debounced(2);
+    vi.advanceTimersByTime(99);
+
+    expect(fn).not.toHaveBeenCalled();
+
+    debounced(3);
+    vi.advanceTimersByTime(100);
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(fn).toHaveBeenCalledWith(3);
+    expect(debounced(4)).toBe(6);
+  });
+
+  it('should invoke on the leading edge only when trailing is disabled', () => {
+    const fn = vi.fn();
+    const debounced = debounce(fn, 100, { leading: true, trailing: false });
+
+    debounced('apple');
+    debounced('pear');
+    vi.advanceTimersByTime(100);
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(fn).toHaveBeenCalledWith('apple');
+  });
+
+  it('should invoke on both edges when leading and trailing are enabled', () => {
+    const fn = vi.fn();
+    const debounced = debounce(fn, 100, { leading: true });
+
+    debounced('apple');
+    debounced('pear');
+    vi.advanceTimersByTime(100);
+
+    expect(fn.mock.calls).toStrictEqual([['apple'], ['pear']]);
+  });
+
+  it('should not delay invocation longer than maxWait', () => {
+    const fn = vi.fn();
+    const debounced = debounce(fn, 100, { maxWait: 250 });
+
+    for (let i = 0; i < 10; i++) {
+      debounced(i);
+      vi.advanceTimersByTime(50);
+    }
+
+    // Invoked at 250ms and 500ms despite continuous calls
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should preserve the this context', () => {
+    const target = {
+      name: 'apple',
+      getName: debounce(function (this: { name: string }) {
+        return this.name;
+      }, 100),
+    };
+
+    target.getName();
+
+    expect(target.getName.flush()).toBe('apple');
+  });
+
+  it('should cancel the pending invocation', () => {
+    const fn = vi.fn();
+    const debounced = debounce(fn, 100);
+
+    debounced();
+
+    expect(debounced.pending()).toBe(true);
+
+    debounced.cancel();
+    vi.advanceTimersByTime(100);
+
+    expect(debounced.pending()).toBe(false);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('should invoke the pending invocation immediately on flush', () => {
+    const fn = vi.fn((value: number) => value * 2);
+    const debounced = debounce(fn, 100);
+
+    debounced(5);
+
+    expect(debounced.flush()).toBe(10);
+    expect(debounced.pending()).toBe(false);
+
+    vi.advanceTimersByTime(100);
+
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('[debounceAsync]: debounce promise-returning functions', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should resolve every caller of a burst with the same result', async () => {
+    const fn = vi.fn(async (query: string) => `results for ${query}`);
+    const search = debounceAsync(fn, 100);
+
+    const first = search('app');
+    const second = search('apple');
+
+    await vi.advanceTimersByTimeAsync(100);
+
+    await expect(first).resolves.toBe('results for apple');
+    await expect(second).resolves.toBe('results for apple');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject every caller of a burst when the invocation fails', async () => {
+    const search = debounceAsync(async () => {
+      throw new Error('Failure');
+    }, 100);
+
+    const first = search();
+    const second = search();
+    const assertion = Promise.all([
+      expect(first).rejects.toThrow('Failure'),
+      expect(second).rejects.toThrow('Failure'),
+    ]);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await assertion;
+  });
+
+  it('should settle leading and trailing callers separately', async () => {
+    const fn = vi.fn(async (value: number) => value);
+    const debounced = debounceAsync(fn, 100, { leading: true });
+
+    const first = debounced(1);
+    const second = debounced(2);
+    const third = debounced(3);
+
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(await Promise.all([first, second, third])).toStrictEqual([1, 3, 3]);
+  });
+
+  it('should reject waiting callers with an AbortError on cancel', async () => {
+    const debounced = debounceAsync(async () => 'apple', 100);
+
+    const promise = debounced();
+    debounced.cancel();
+
+    await expect(promise).rejects.toBeInstanceOf(AbortError);
+  });
+});
@@ -0,0 +1,181 @@
+import { memoize, memoizeAsync } from '~/function';
+
+describe('[memoize]: cache function results', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should return cached results for the same arguments', () => {
+    const fn = vi.fn((a: number, b: number) => a + b);
+    const sum = memoize(fn);
+
+    expect(sum(1, 2)).toBe(3);
+    expect(sum(1, 2)).toBe(3);
+    expect(sum(2, 2)).toBe(4);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should resolve structurally equal object arguments to the same key', () => {
+    const fn = vi.fn((items: { id: number }[]) => items.length);
+    const count = memoize(fn);
+
+    count([{ id: 1 }]);
+    count([{ id: 1 }]);
+
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not share keys between non-finite numbers', () => {
+    const double = memoize((value: number) => value * 2);
+
+    expect(double(NaN)).toBeNaN();
+    expect(double(Infinity)).toBe(Infinity);
+    expect(double(-Infinity)).toBe(-Infinity);
+  });
+
+  it('should not share keys between -0 and 0', () => {
+    const invert = memoize((value: number) => 1 / value);
+
+    expect(invert(-0)).toBe(-Infinity);
+    expect(invert(0)).toBe(Infinity);
+  });
+
+  it('should not share keys between undefined and null', () => {
+    const describeValue = memoize((value: unknown) => String(value));
+
+    expect(describeValue(undefined)).toBe('undefined');
+    expect(describeValue(null)).toBe('null');
+    expect(describeValue([undefined])).toBe('');
+    expect(describeValue([null])).toBe('');
+    expect(describeValue({ value: undefined })).toBe('[object Object]');
+  });
+
+  it('should resolve Map and Set arguments by their contents', () => {
+    const fn = vi.fn((collection: Map<unknown, unknown> | Set<unknown>) => collection.size);
+    const getSize = memoize(fn);
+
+    expect(getSize(new Set([1]))).toBe(1);
+    expect(getSize(new Set([1, 2, 3]))).toBe(3);
+    expect(getSize(new Map([['a', 1]]))).toBe(1);
+    expect(getSize(new Map([['a', 2]]))).toBe(1);
+    expect(getSize(new Set([1]))).toBe(1);
+    expect(fn).toHaveBeenCalledTimes(4);
+  });
+
+  it('should not share keys between strings and other values', () => {
+    const fn = vi.fn((value: unknown) => typeof value);
+    const getType = memoize(fn);
+
+    expect(getType('1')).toBe('string');
+    expect(getType(1)).toBe('number');
+    expect(getType('undefined')).toBe('string');
+    expect(getType(undefined)).toBe('undefined');
+    expect(fn).toHaveBeenCalledTimes(4);
+  });
+
+  it('should throw for circular arguments with the default key resolver', () => {
+    const node: { self?: unknown } = {};
+    node.self = node;
+
+    expect(() => memoize((value: unknown) => value)(node)).toThrow(
+      '[@react-hive/honey-utils]: Cannot resolve a memoize key for a circular structure.',
+    );
+  });
+
+  it('should use a custom key resolver', () => {
+    const fn = vi.fn((user: { id: number; name: string }) => user.name);
+    const getName = memoize(fn, { resolveKey: user => String(user.id) });
+
+    expect(getName({ id: 1, name: 'Apple' })).toBe('Apple');
+    expect(getName({ id: 1, name: 'Pear' })).toBe('Apple');
+  });
+
+  it('should evict the least recently used entry when maxSize is exceeded', () => {
+    const fn = vi.fn((value: string) => value.toUpperCase());
+    const toUpper = memoize(fn, { maxSize: 2 });
+
+    toUpper('a');
+    toUpper('b');
+    toUpper('a');
+    toUpper('c');
+
+    expect(fn).toHaveBeenCalledTimes(3);
+
+    toUpper('a');
+    expect(fn).toHaveBeenCalledTimes(3);
+
+    toUpper('b');
+    expect(fn).toHaveBeenCalledTimes(4);
+  });
+
+  it('should expire entries after ttlMs', () => {
+    vi.useFakeTimers();
+
+    const fn = vi.fn(() => Math.random());
+    const getValue = memoize(fn, { ttlMs: 1000 });
+
+    getValue();
+    vi.advanceTimersByTime(999);
+    getValue();
+
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1);
+    getValue();
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should delete single entries and clear the cache', () => {
+    const fn = vi.fn((value: number) => value * 2);
+    const double = memoize(fn);
+
+    double(1);
+    double(2);
+
+    expect(double.delete(1)).toBe(true);
+    expect(double.delete(1)).toBe(false);
+
+    double(1);
+    double(2);
+    expect(fn).toHaveBeenCalledTimes(3);
+
+    double.clear();
+    double(2);
+    expect(fn).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe('[memoizeAsync]: cache async function results', () => {
+  it('should deduplicate concurrent in-flight calls', async () => {
+    const fn = vi.fn(async (id: number) => ({ id }));
+    const fetchItem = memoizeAsync(fn);
+
+    const [first, second] = await Promise.all([fetchItem(1), fetchItem(1)]);
+
+    expect(first).toBe(second);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should evict rejected results', async () => {
+    let calls = 0;
+
+    const fn = vi.fn(async () => {
+      calls++;
+
+      if (calls === 1) {
+        throw new Error('Failure');
+      }
+
+      return 'apple';
+    });
+
+    const fetchItem = memoizeAsync(fn);
+
+    await expect(fetchItem()).rejects.toThrow('Failure');
+    await expect(fetchItem()).resolves.toBe('apple');
+    await expect(fetchItem()).resolves.toBe('apple');
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+});
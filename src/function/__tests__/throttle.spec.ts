@@ -0,0 +1,87 @@
+import { throttle, throttleAsync } from '~/function';
+
+describe('[throttle]: invoke at most once per interval', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should invoke on the leading and trailing edges', () => {
+    const fn = vi.fn();
+    const throttled = throttle(fn, 100);
+
+    throttled(1);
+    throttled(2);
+    throttled(3);
+
+    expect(fn.mock.calls).toStrictEqual([[1]]);
+
+    vi.advanceTimersByTime(100);
+
+    expect(fn.mock.calls).toStrictEqual([[1], [3]]);
+  });
+
+  it('should invoke regularly during continuous calls', () => {
+    const fn = vi.fn();
+    const throttled = throttle(fn, 100);
+
+    for (let i = 0; i < 10; i++) {
+      throttled(i);
+      vi.advanceTimersByTime(20);
+    }
+
+    // Invoked at 0ms, 100ms and 200ms
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('should skip the leading invocation when disabled', () => {
+    const fn = vi.fn();
+    const throttled = throttle(fn, 100, { leading: false });
+
+    throttled(1);
+
+    expect(fn).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(100);
+
+    expect(fn).toHaveBeenCalledWith(1);
+  });
+
+  it('should skip the trailing invocation when disabled', () => {
+    const fn = vi.fn();
+    const throttled = throttle(fn, 100, { trailing: false });
+
+    throttled(1);
+    throttled(2);
+    vi.advanceTimersByTime(100);
+
+    expect(fn.mock.calls).toStrictEqual([[1]]);
+  });
+});
+
+describe('[throttleAsync]: throttle promise-returning functions', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should resolve callers collapsed into the trailing invocation with the same result', async () => {
+    const fn = vi.fn(async (value: number) => value * 2);
+    const throttled = throttleAsync(fn, 100);
+
+    const first = throttled(1);
+    const second = throttled(2);
+    const third = throttled(3);
+
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(await Promise.all([first, second, third])).toStrictEqual([2, 6, 6]);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+});
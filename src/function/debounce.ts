@@ -0,0 +1,298 @@
+import type { Nullable, TimeoutId } from '~/types';
+import { isUndefined } from '~/guards';
+import { AbortError } from '~/async';
+
+export interface DebounceOptions {
+  /**
+   * Whether to invoke the function on the leading edge of the wait timeout.
+   *
+   * @default false
+   */
+  leading?: boolean;
+  /**
+   * Whether to invoke the function on the trailing edge of the wait timeout.
+   *
+   * @default true
+   */
+  trailing?: boolean;
+  /**
+   * Maximum time in milliseconds the function may be delayed before it is invoked.
+   *
+   * Guarantees periodic invocations during a continuous stream of calls.
+   * Values lower than the wait time are raised to it.
+   */
+  maxWait?: number;
+}
+
+export interface DebouncedFunction<Args extends unknown[], Result> {
+  /**
+   * Schedules an invocation of the original function.
+   *
+   * @returns The result of the latest invocation, or `undefined` if it has not been invoked yet.
+   */
+  (...args: Args): Result | undefined;
+  /**
+   * Cancels the pending invocation, if any.
+   */
+  cancel: () => void;
+  /**
+   * Immediately invokes the pending invocation, if any.
+   *
+   * @returns The result of the latest invocation.
+   */
+  flush: () => Result | undefined;
+  /**
+   * Checks whether an invocation is currently scheduled.
+   */
+  pending: () => boolean;
+}
+
+/**
+ * Creates a debounced function that delays invoking `fn` until `waitMs` milliseconds have elapsed
+ * since the last time the debounced function was called.
+ *
+ * The function is invoked with the latest arguments and `this` context. Invocation may happen on
+ * the leading and/or trailing edge of the wait timeout, and `maxWait` guarantees the function is
+ * not delayed indefinitely during a continuous burst of calls.
+ *
+ * Common use cases include:
+ * - reacting to resize or scroll only after the user stops
+ * - auto-saving form input
+ * - delaying search requests while the user types
+ *
+ * @template Args - Argument types of the original function.
+ * @template Result - Return type of the original function.
+ *
+ * @param fn - The function to debounce.
+ * @param waitMs - The number of milliseconds to delay.
+ * @param options - Options controlling leading/trailing invocation and the maximum wait.
+ *
+ * @returns The debounced function with `cancel`, `flush` and `pending` methods.
+ *
+ * @example
+ * ```ts
+ * const onResize = debounce(() => recalculateLayout(), 150, { maxWait: 500 });
+ *
+ * window.addEventListener('resize', onResize);
+ *
+ * // Later
+ * onResize.cancel();
+ * ```
+ */
+export const debounce = <Args extends unknown[], Result>(
+  fn: (...args: Args) => Result,
+  waitMs: number,
+  { leading = false, trailing = true, maxWait }: DebounceOptions = {},
+): DebouncedFunction<Args, Result> => {
+  const maxWaitMs = isUndefined(maxWait) ? undefined : Math.max(maxWait, waitMs);
+
+  let timeoutId: Nullable<TimeoutId> = null;
+  // The latest call, bound to its arguments and `this` context
+  let pendingInvoke: Nullable<() => Result> = null;
+  let lastCallTime: number | undefined;
+  let lastInvokeTime = 0;
+  let result: Result | undefined;
+
+  const invoke = (time: number) => {
+    const invokePending = pendingInvoke as () => Result;
+
+    pendingInvoke = null;
+    lastInvokeTime = time;
+    result = invokePending();
+
+    return result;
+  };
+
+  const shouldInvoke = (time: number) => {
+    if (isUndefined(lastCallTime)) {
+      return true;
+    }
+
+    const timeSinceLastCall = time - lastCallTime;
+
+    return (
+      timeSinceLastCall >= waitMs ||
+      // The system time has gone backwards
+      timeSinceLastCall < 0 ||
+      (!isUndefined(maxWaitMs) && time - lastInvokeTime >= maxWaitMs)
+    );
+  };
+
+  const getRemainingWait = (time: number) => {
+    const remainingWait = waitMs - (time - (lastCallTime ?? time));
+
+    return isUndefined(maxWaitMs)
+      ? remainingWait
+      : Math.min(remainingWait, maxWaitMs - (time - lastInvokeTime));
+  };
+
+  const trailingEdge = (time: number) => {
+    timeoutId = null;
+
+    if (trailing && pendingInvoke) {
+      return invoke(time);
+    }
+
+    pendingInvoke = null;
+
+    return result;
+  };
+
+  const onTimerExpired = () => {
+    const time = Date.now();
+
+    if (shouldInvoke(time)) {
+      trailingEdge(time);
+      return;
+    }
+
+    timeoutId = setTimeout(onTimerExpired, getRemainingWait(time));
+  };
+
+  const leadingEdge = (time: number) => {
+    lastInvokeTime = time;
+    timeoutId = setTimeout(onTimerExpired, waitMs);
+
+    return leading ? invoke(time) : result;
+  };
+
+  const debounced = function (this: unknown, ...args: Args) {
+    const time = Date.now();
+    const isInvoking = shouldInvoke(time);
+
+    pendingInvoke = () => fn.apply(this, args);
+    lastCallTime = time;
+
+    if (isInvoking) {
+      if (timeoutId === null) {
+        return leadingEdge(time);
+      }
+
+      if (!isUndefined(maxWaitMs)) {
+        // Handle invocations in a tight loop
+        clearTimeout(timeoutId);
+        timeoutId = setTimeout(onTimerExpired, waitMs);
+
+        return invoke(time);
+      }
+    }
+
+    if (timeoutId === null) {
+      timeoutId = setTimeout(onTimerExpired, waitMs);
+    }
+
+    return result;
+  };
+
+  return Object.assign(debounced, {
+    cancel: () => {
+      if (timeoutId !== null) {
+        clearTimeout(timeoutId);
+      }
+
+      timeoutId = null;
+      pendingInvoke = null;
+      lastCallTime = undefined;
+      lastInvokeTime = 0;
+    },
+    flush: () => (timeoutId === null ? result : trailingEdge(Date.now())),
+    pending: () => timeoutId !== null,
+  });
+};
+
+export interface AsyncDebouncedFunction<Args extends unknown[], Result> {
+  /**
+   * Schedules an invocation of the original function.
+   *
+   * @returns A promise resolved with the result of the invocation that handles this call.
+   */
+  (...args: Args): Promise<Result>;
+  /**
+   * Cancels the pending invocation and rejects all waiting callers with an `AbortError`.
+   */
+  cancel: () => void;
+  /**
+   * Immediately invokes the pending invocation, if any.
+   */
+  flush: () => void;
+  /**
+   * Checks whether an invocation is currently scheduled.
+   */
+  pending: () => boolean;
+}
+
+interface PendingCaller<Result> {
+  resolve: (result: Result) => void;
+  reject: (reason: unknown) => void;
+}
+
+/**
+ * Creates a debounced version of a promise-returning function.
+ *
+ * Unlike {@link debounce}, every call returns a promise. All calls collapsed into a single
+ * invocation are resolved (or rejected) with the result of that same invocation.
+ *
+ * The trailing edge is always enabled, so every caller is eventually settled.
+ *
+ * @template Args - Argument types of the original function.
+ * @template Result - Resolved type of the original function.
+ *
+ * @param fn - The async function to debounce.
+ * @param waitMs - The number of milliseconds to delay.
+ * @param options - Options controlling leading invocation and the maximum wait.
+ *
+ * @returns The debounced function with `cancel`, `flush` and `pending` methods.
+ *
+ * @example
+ * ```ts
+ * const search = debounceAsync((query: string) => fetchResults(query), 300);
+ *
+ * const [first, second] = await Promise.all([search('app'), search('apple')]);
+ * // Both callers receive the results for 'apple'
+ * ```
+ */
+export const debounceAsync = <Args extends unknown[], Result>(
+  fn: (...args: Args) => Promise<Result>,
+  waitMs: number,
+  options: Omit<DebounceOptions, 'trailing'> = {},
+): AsyncDebouncedFunction<Args, Result> => {
+  let pendingCallers: PendingCaller<Result>[] = [];
+
+  const debounced = debounce(
+    function (this: unknown, ...args: Args) {
+      const callers = pendingCallers;
+      pendingCallers = [];
+
+      // The executor runs synchronously and turns thrown errors into rejections
+      new Promise<Result>(resolve => resolve(fn.apply(this, args))).then(
+        result => callers.forEach(caller => caller.resolve(result)),
+        e => callers.forEach(caller => caller.reject(e)),
+      );
+    },
+    waitMs,
+    options,
+  );
+
+  const debouncedAsync = function (this: unknown, ...args: Args) {
+    return new Promise<Result>((resolve, reject) => {
+      pendingCallers.push({ resolve, reject });
+
+      debounced.apply(this, args);
+    });
+  };
+
+  return Object.assign(debouncedAsync, {
+    cancel: () => {
+      debounced.cancel();
+
+      const callers = pendingCallers;
+      pendingCallers = [];
+
+      callers.forEach(caller => caller.reject(new AbortError('The debounced call was cancelled')));
+    },
+    flush: () => {
+      debounced.flush();
+    },
+    pending: debounced.pending,
+  });
+};
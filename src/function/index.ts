@@ -1,2 +1,5 @@
 export * from './function';
 export * from './invoke-if-function';
+export * from './debounce';
+export * from './throttle';
+export * from './memoize';
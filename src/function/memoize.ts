@@ -0,0 +1,282 @@
+import { assert, isDate, isNil, isMap, isRegExp, isSet } from '~/guards';
+import { hashString } from '~/math';
+
+export interface MemoizeOptions<Args extends unknown[]> {
+  /**
+   * Resolves the cache key for the given arguments.
+   *
+   * The default resolver serializes all arguments by value and hashes the result with `hashString`.
+   * Unlike `JSON.stringify`, the serialization keeps `undefined`, `NaN`, `Infinity`, `-0`,
+   * dates and `Map` / `Set` contents distinct. Class instances are serialized by their own
+   * enumerable properties, and functions by their source.
+   *
+   * Provide a custom resolver when arguments are large (each call serializes them in full),
+   * or when a cheaper identity (e.g. an id or a version) is available.
+   *
+   * @default (...args) => hashString(serializeKeyValue(args))
+   */
+  resolveKey?: (...args: Args) => string;
+  /**
+   * Maximum number of cached entries.
+   *
+   * When exceeded, the least recently used entry is evicted.
+   *
+   * @default Infinity
+   */
+  maxSize?: number;
+  /**
+   * Time in milliseconds after which a cached entry expires.
+   *
+   * @default Infinity
+   */
+  ttlMs?: number;
+}
+
+export interface MemoizedFunction<Args extends unknown[], Result> {
+  (...args: Args): Result;
+  /**
+   * Removes all cached entries.
+   */
+  clear: () => void;
+  /**
+   * Removes the cached entry for the given arguments.
+   *
+   * @returns `true` if an entry was removed; otherwise, `false`.
+   */
+  delete: (...args: Args) => boolean;
+}
+
+interface MemoCacheEntry<Value> {
+  value: Value;
+  expiresAt: number;
+}
+
+/**
+ * Serializes a value into a string that differs for values of different types or contents.
+ *
+ * `ancestors` holds the objects currently being serialized to detect circular references.
+ */
+const serializeKeyValue = (value: unknown, ancestors = new Set<object>()): string => {
+  switch (typeof value) {
+    case 'string':
+      return JSON.stringify(value);
+    case 'number':
+      return Object.is(value, -0) ? '-0' : String(value);
+    case 'bigint':
+      return `${value}n`;
+    case 'boolean':
+    case 'symbol':
+      return String(value);
+    case 'function':
+      return `function(${String(value)})`;
+  }
+
+  if (isNil(value)) {
+    return String(value);
+  }
+
+  if (isDate(value)) {
+    return `Date(${value.getTime()})`;
+  }
+
+  if (isRegExp(value)) {
+    return `RegExp(${String(value)})`;
+  }
+
+  assert(
+    !ancestors.has(value),
+    '[@react-hive/honey-utils]: Cannot resolve a memoize key for a circular structure.',
+  );
+  ancestors.add(value);
+
+  const serializeNested = (nestedValue: unknown) => serializeKeyValue(nestedValue, ancestors);
+
+  let serialized: string;
+
+  if (isMap(value)) {
+    const entries = Array.from(
+      value,
+      ([key, entryValue]) => `${serializeNested(key)}=>${serializeNested(entryValue)}`,
+    );
+
+    serialized = `Map{${entries.join(',')}}`;
+  } else if (isSet(value)) {
+    serialized = `Set[${Array.from(value, serializeNested).join(',')}]`;
+  } else if (Array.isArray(value)) {
+    serialized = `[${Array.from(value, serializeNested).join(',')}]`;
+  } else {
+    serialized = `{${Object.entries(value)
+      .map(([key, entryValue]) => `${JSON.stringify(key)}:${serializeNested(entryValue)}`)
+      .join(',')}}`;
+  }
+
+  ancestors.delete(value);
+
+  return serialized;
+};
+
+const defaultResolveKey = (...args: unknown[]): string => hashString(serializeKeyValue(args));
+
+/**
+ * Creates an LRU cache with optional entry expiration.
+ *
+ * `Map` preserves insertion order, so re-inserting an entry on access moves it to the end,
+ * leaving the least recently used entry first.
+ */
+const createMemoCache = <Value>(maxSize: number, ttlMs: number) => {
+  const entries = new Map<string, MemoCacheEntry<Value>>();
+
+  return {
+    get: (key: string): MemoCacheEntry<Value> | undefined => {
+      const entry = entries.get(key);
+      if (!entry) {
+        return undefined;
+      }
+
+      entries.delete(key);
+
+      if (entry.expiresAt <= Date.now()) {
+        return undefined;
+      }
+
+      entries.set(key, entry);
+
+      return entry;
+    },
+    set: (key: string, value: Value) => {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+      if (entries.size > maxSize) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    },
+    peek: (key: string) => entries.get(key),
+    delete: (key: string) => entries.delete(key),
+    clear: () => entries.clear(),
+  };
+};
+
+/**
+ * Wraps a function so that results are cached per argument key.
+ *
+ * Subsequent calls with arguments resolving to the same key return the cached result
+ * without invoking `fn` again. The cache may be bounded by size (least recently used
+ * entries are evicted first) and by time.
+ *
+ * ⚠️ The default key resolver relies on `hashString`, which is not collision-free, and
+ * serializes all arguments on every call. Provide `resolveKey` when arguments are large or
+ * have a natural unique identity.
+ *
+ * @template Args - Argument types of the original function.
+ * @template Result - Return type of the original function.
+ *
+ * @param fn - The function to memoize.
+ * @param options - Options controlling key resolution, cache size and expiration.
+ *
+ * @returns The memoized function with `clear` and `delete` methods.
+ *
+ * @example
+ * ```ts
+ * // Key by a version instead of serializing the whole tree on every call
+ * const getFlatTree = memoize(
+ *   (items: Category[], version: number) => flattenTree(items, 'id', 'children'),
+ *   { resolveKey: (_items, version) => String(version), maxSize: 10 },
+ * );
+ *
+ * getFlatTree(categories, 1); // computed
+ * getFlatTree(categories, 1); // cached
+ * ```
+ */
+export const memoize = <Args extends unknown[], Result>(
+  fn: (...args: Args) => Result,
+  {
+    resolveKey = defaultResolveKey,
+    maxSize = Infinity,
+    ttlMs = Infinity,
+  }: MemoizeOptions<Args> = {},
+): MemoizedFunction<Args, Result> => {
+  const cache = createMemoCache<Result>(maxSize, ttlMs);
+
+  const memoized = function (this: unknown, ...args: Args) {
+    const key = resolveKey(...args);
+
+    const entry = cache.get(key);
+    if (entry) {
+      return entry.value;
+    }
+
+    const result = fn.apply(this, args);
+    cache.set(key, result);
+
+    return result;
+  };
+
+  return Object.assign(memoized, {
+    clear: cache.clear,
+    delete: (...args: Args) => cache.delete(resolveKey(...args)),
+  });
+};
+
+/**
+ * Wraps a promise-returning function so that results are cached per argument key.
+ *
+ * Concurrent calls with the same key share a single in-flight promise.
+ * Rejected promises are evicted from the cache, so the next call retries the operation.
+ *
+ * @template Args - Argument types of the original function.
+ * @template Result - Resolved type of the original function.
+ *
+ * @param fn - The async function to memoize.
+ * @param options - Options controlling key resolution, cache size and expiration.
+ *
+ * @returns The memoized function with `clear` and `delete` methods.
+ *
+ * @example
+ * ```ts
+ * const fetchUser = memoizeAsync((id: number) => api.getUser(id), {
+ *   resolveKey: id => String(id),
+ *   ttlMs: 60_000,
+ * });
+ *
+ * // Only one request is sent
+ * await Promise.all([fetchUser(1), fetchUser(1)]);
+ * ```
+ */
+export const memoizeAsync = <Args extends unknown[], Result>(
+  fn: (...args: Args) => Promise<Result>,
+  {
+    resolveKey = defaultResolveKey,
+    maxSize = Infinity,
+    ttlMs = Infinity,
+  }: MemoizeOptions<Args> = {},
+): MemoizedFunction<Args, Promise<Result>> => {
+  const cache = createMemoCache<Promise<Result>>(maxSize, ttlMs);
+
+  const memoized = function (this: unknown, ...args: Args) {
+    const key = resolveKey(...args);
+
+    const entry = cache.get(key);
+    if (entry) {
+      return entry.value;
+    }
+
+    // The executor runs synchronously and turns thrown errors into rejections
+    const promise = new Promise<Result>(resolve => resolve(fn.apply(this, args)));
+    cache.set(key, promise);
+
+    promise.catch(() => {
+      // Evict only if the entry was not replaced in the meantime
+      if (cache.peek(key)?.value === promise) {
+        cache.delete(key);
+      }
+    });
+
+    return promise;
+  };
+
+  return Object.assign(memoized, {
+    clear: cache.clear,
+    delete: (...args: Args) => cache.delete(resolveKey(...args)),
+  });
+};
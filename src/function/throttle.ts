@@ -0,0 +1,86 @@
+import type { AsyncDebouncedFunction, DebouncedFunction } from '~/function';
+import { debounce, debounceAsync } from '~/function';
+
+export interface ThrottleOptions {
+  /**
+   * Whether to invoke the function on the leading edge of the throttle interval.
+   *
+   * @default true
+   */
+  leading?: boolean;
+  /**
+   * Whether to invoke the function on the trailing edge of the throttle interval.
+   *
+   * @default true
+   */
+  trailing?: boolean;
+}
+
+export type ThrottledFunction<Args extends unknown[], Result> = DebouncedFunction<Args, Result>;
+
+export type AsyncThrottledFunction<Args extends unknown[], Result> = AsyncDebouncedFunction<
+  Args,
+  Result
+>;
+
+/**
+ * Creates a throttled function that invokes `fn` at most once per `intervalMs` milliseconds.
+ *
+ * The function is invoked with the latest arguments and `this` context. This is a debounced
+ * function whose `maxWait` equals the interval, so continuous calls produce regular invocations.
+ *
+ * Common use cases include:
+ * - handling scroll, resize and pointer move events
+ * - rate-limiting analytics or progress updates
+ *
+ * @template Args - Argument types of the original function.
+ * @template Result - Return type of the original function.
+ *
+ * @param fn - The function to throttle.
+ * @param intervalMs - The minimum number of milliseconds between invocations.
+ * @param options - Options controlling leading/trailing invocation.
+ *
+ * @returns The throttled function with `cancel`, `flush` and `pending` methods.
+ *
+ * @example
+ * ```ts
+ * const onPointerMove = throttle((event: PointerEvent) => updatePosition(event), 16);
+ *
+ * element.addEventListener('pointermove', onPointerMove);
+ * ```
+ */
+export const throttle = <Args extends unknown[], Result>(
+  fn: (...args: Args) => Result,
+  intervalMs: number,
+  { leading = true, trailing = true }: ThrottleOptions = {},
+): ThrottledFunction<Args, Result> =>
+  debounce(fn, intervalMs, {
+    leading,
+    trailing,
+    maxWait: intervalMs,
+  });
+
+/**
+ * Creates a throttled version of a promise-returning function.
+ *
+ * Every call returns a promise resolved with the result of the invocation that handles it.
+ * The trailing edge is always enabled, so every caller is eventually settled.
+ *
+ * @template Args - Argument types of the original function.
+ * @template Result - Resolved type of the original function.
+ *
+ * @param fn - The async function to throttle.
+ * @param intervalMs - The minimum number of milliseconds between invocations.
+ * @param options - Options controlling leading invocation.
+ *
+ * @returns The throttled function with `cancel`, `flush` and `pending` methods.
+ */
+export const throttleAsync = <Args extends unknown[], Result>(
+  fn: (...args: Args) => Promise<Result>,
+  intervalMs: number,
+  { leading = true }: Omit<ThrottleOptions, 'trailing'> = {},
+): AsyncThrottledFunction<Args, Result> =>
+  debounceAsync(fn, intervalMs, {
+    leading,
+    maxWait: intervalMs,
+  });
@@ -0,0 +1,88 @@
+import { assert } from '~/guards';
+import { applySpringStep } from './apply-spring-step';
+
+describe('applySpringStep', () => {
+  it('should pull the value toward the target', () => {
+    const result = applySpringStep({
+      value: 120,
+      target: 100,
+      velocityPxMs: 0,
+      deltaTimeMs: 16,
+    });
+
+    expect(result).not.toBeNull();
+    assert(result, 'Result should not be null');
+
+    expect(result.value).toBeLessThan(120);
+    expect(result.value).toBeGreaterThan(100);
+    expect(result.velocityPxMs).toBeLessThan(0);
+  });
+
+  it('should integrate semi-implicitly', () => {
+    const result = applySpringStep({
+      value: 10,
+      target: 0,
+      velocityPxMs: 0,
+      deltaTimeMs: 4,
+      stiffness: 0.01,
+      damping: 0,
+    });
+
+    expect(result).not.toBeNull();
+    assert(result, 'Result should not be null');
+
+    // v = -0.01 * 10 * 4, x = 10 + v * 4
+    expect(result.velocityPxMs).toBeCloseTo(-0.4);
+    expect(result.value).toBeCloseTo(8.4);
+  });
+
+  it('should carry an outward velocity past the target before returning', () => {
+    let value = 0;
+    let velocityPxMs = 1;
+    let maxValue = 0;
+    let isSettled = false;
+
+    for (let i = 0; i < 500; i++) {
+      const result = applySpringStep({ value, target: 0, velocityPxMs, deltaTimeMs: 16 });
+      if (!result) {
+        isSettled = true;
+        break;
+      }
+
+      ({ value, velocityPxMs } = result);
+      maxValue = Math.max(maxValue, value);
+    }
+
+    expect(maxValue).toBeGreaterThan(10);
+    expect(isSettled).toBe(true);
+    expect(Math.abs(value)).toBeLessThan(1);
+  });
+
+  it('should return null when at rest', () => {
+    const result = applySpringStep({
+      value: 100.2,
+      target: 100,
+      velocityPxMs: 0.001,
+      deltaTimeMs: 16,
+    });
+
+    expect(result).toBeNull();
+  });
+
+  it('should be stable with long frames', () => {
+    const result = applySpringStep({
+      value: 100,
+      target: 0,
+      velocityPxMs: 0,
+      deltaTimeMs: 200,
+      stiffness: 0.001,
+      damping: 0.1,
+    });
+
+    expect(result).not.toBeNull();
+    assert(result, 'Result should not be null');
+
+    expect(result.value).toBeGreaterThan(0);
+    expect(result.value).toBeLessThan(100);
+  });
+});
@@ -0,0 +1,147 @@
+import type { Nullable } from '~/types';
+
+export interface SpringOptions {
+  /**
+   * Spring stiffness: acceleration toward the target per pixel of displacement,
+   * in `px/ms²` per pixel.
+   *
+   * Larger values pull the value back faster.
+   *
+   * @default 0.0002
+   */
+  stiffness?: number;
+  /**
+   * Damping coefficient: deceleration per unit of velocity, per millisecond.
+   *
+   * Values at or above `2 * sqrt(stiffness)` return the value without oscillation
+   * (critically damped or overdamped); smaller values produce a visible bounce.
+   *
+   * @default 0.03
+   */
+  damping?: number;
+  /**
+   * Distance from the target below which the spring may come to rest, in pixels.
+   *
+   * @default 0.5
+   */
+  restDistancePx?: number;
+  /**
+   * Absolute velocity below which the spring may come to rest.
+   *
+   * Expressed in pixels per millisecond (`px/ms`).
+   *
+   * @default 0.01
+   */
+  restVelocityPxMs?: number;
+}
+
+interface ApplySpringStepOptions extends SpringOptions {
+  /**
+   * Current numeric value before applying the spring step.
+   */
+  value: number;
+  /**
+   * Value the spring pulls toward, e.g. the bound that was overscrolled.
+   */
+  target: number;
+  /**
+   * Current velocity in pixels per millisecond (`px/ms`).
+   *
+   * A velocity pointing away from the target makes the value travel further before returning.
+   */
+  velocityPxMs: number;
+  /**
+   * Time elapsed since the previous spring step, in milliseconds.
+   */
+  deltaTimeMs: number;
+}
+
+/**
+ * Result of a single spring simulation step.
+ *
+ * Returned while the spring is still in motion.
+ */
+export interface SpringStepResult {
+  /**
+   * Updated value after applying this spring step.
+   */
+  value: number;
+  /**
+   * Updated velocity in pixels per millisecond (`px/ms`).
+   */
+  velocityPxMs: number;
+}
+
+/**
+ * Maximum integration step. Longer frames are split into sub-steps to keep
+ * the simulation stable regardless of the frame rate.
+ */
+const MAX_SPRING_SUB_STEP_MS = 4;
+
+/**
+ * Applies a **single step** of a damped spring pulling a value toward a target.
+ *
+ * The spring is integrated with semi-implicit Euler:
+ *
+ * `acceleration = -stiffness * (value - target) - damping * velocity`
+ *
+ * Typically used to return an overscrolled value (see {@link resolveOverscrollDelta})
+ * back into range once the interaction ends.
+ *
+ * ---
+ *
+ * ### Termination conditions
+ * The spring comes to rest when both the distance to the target is below `restDistancePx`
+ * and the absolute velocity is below `restVelocityPxMs`. The caller should then set the value
+ * to `target`.
+ *
+ * ---
+ *
+ * ⚠️ **Single-step function**
+ * This function advances the spring **once only**.
+ * It must be invoked repeatedly from an animation loop
+ * (e.g. `requestAnimationFrame`) to produce continuous motion.
+ *
+ * @returns A {@link SpringStepResult} while the spring is in motion,
+ *          or `null` when it has come to rest.
+ */
+export const applySpringStep = ({
+  value,
+  target,
+  velocityPxMs,
+  deltaTimeMs,
+  stiffness = 0.0002,
+  damping = 0.03,
+  restDistancePx = 0.5,
+  restVelocityPxMs = 0.01,
+}: ApplySpringStepOptions): Nullable<SpringStepResult> => {
+  const isAtRest = (currentValue: number, currentVelocityPxMs: number) =>
+    Math.abs(currentValue - target) < restDistancePx &&
+    Math.abs(currentVelocityPxMs) < restVelocityPxMs;
+
+  if (isAtRest(value, velocityPxMs)) {
+    return null;
+  }
+
+  const subStepCount = Math.max(1, Math.ceil(deltaTimeMs / MAX_SPRING_SUB_STEP_MS));
+  const subStepMs = deltaTimeMs / subStepCount;
+
+  let nextValue = value;
+  let nextVelocityPxMs = velocityPxMs;
+
+  for (let i = 0; i < subStepCount; i++) {
+    const acceleration = -stiffness * (nextValue - target) - damping * nextVelocityPxMs;
+
+    nextVelocityPxMs += acceleration * subStepMs;
+    nextValue += nextVelocityPxMs * subStepMs;
+  }
+
+  if (isAtRest(nextValue, nextVelocityPxMs)) {
+    return null;
+  }
+
+  return {
+    value: nextValue,
+    velocityPxMs: nextVelocityPxMs,
+  };
+};
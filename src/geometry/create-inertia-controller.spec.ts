@@ -0,0 +1,312 @@
+import type { InertiaFrameScheduler } from './create-inertia-controller';
+import { createInertiaController } from './create-inertia-controller';
+
+const createManualScheduler = () => {
+  const callbacks = new Map<number, (timestampMs: number) => void>();
+  let nextHandle = 1;
+
+  const scheduler: InertiaFrameScheduler = {
+    requestFrame: callback => {
+      callbacks.set(nextHandle, callback);
+
+      return nextHandle++;
+    },
+    cancelFrame: handle => {
+      callbacks.delete(handle);
+    },
+  };
+
+  const flushFrame = (timestampMs: number) => {
+    const pending = [...callbacks.values()];
+    callbacks.clear();
+
+    pending.forEach(callback => callback(timestampMs));
+  };
+
+  return {
+    scheduler,
+    flushFrame,
+  };
+};
+
+const bounds = {
+  x: { min: 0, max: 1000 },
+  y: { min: 0, max: 1000 },
+};
+
+describe('createInertiaController', () => {
+  it('should move the position by the inverted pointer delta while dragging', () => {
+    const onUpdate = vi.fn();
+    const { scheduler } = createManualScheduler();
+
+    const controller = createInertiaController({
+      initialPosition: { x: 100, y: 100 },
+      getBounds: () => bounds,
+      frameScheduler: scheduler,
+      onUpdate,
+    });
+
+    controller.pointerDown(50, 50, 0);
+    controller.pointerMove(40, 70, 10);
+
+    expect(controller.isDragging).toBe(true);
+    expect(controller.state.position).toStrictEqual({ x: 110, y: 80 });
+    expect(onUpdate).toHaveBeenCalledWith({
+      position: { x: 110, y: 80 },
+      velocityPxMs: { x: 0, y: 0 },
+    });
+  });
+
+  it('should keep the position within bounds while dragging', () => {
+    const { scheduler } = createManualScheduler();
+
+    const controller = createInertiaController({
+      initialPosition: { x: 5, y: 5 },
+      getBounds: () => bounds,
+      frameScheduler: scheduler,
+      invert: false,
+    });
+
+    controller.pointerDown(0, 0, 0);
+    controller.pointerMove(-20, 20, 10);
+
+    expect(controller.state.position).toStrictEqual({ x: 0, y: 25 });
+  });
+
+  it('should ignore movement on the locked axis', () => {
+    const { scheduler } = createManualScheduler();
+
+    const controller = createInertiaController({
+      axis: 'y',
+      initialPosition: { x: 100, y: 100 },
+      getBounds: () => bounds,
+      frameScheduler: scheduler,
+    });
+
+    controller.pointerDown(0, 0, 0);
+    controller.pointerMove(-30, -30, 10);
+
+    expect(controller.state.position).toStrictEqual({ x: 100, y: 130 });
+  });
+
+  it('should continue with inertia after release until both axes settle', () => {
+    const onStart = vi.fn();
+    const onUpdate = vi.fn();
+    const onEnd = vi.fn();
+    const { scheduler, flushFrame } = createManualScheduler();
+
+    const controller = createInertiaController({
+      initialPosition: { x: 500, y: 500 },
+      getBounds: () => bounds,
+      frameScheduler: scheduler,
+      now: () => 100,
+      onStart,
+      onUpdate,
+      onEnd,
+    });
+
+    controller.pointerDown(0, 0, 0);
+    controller.pointerMove(-10, -5, 50);
+    controller.pointerMove(-20, -10, 100);
+    controller.pointerUp(100);
+
+    expect(controller.isAnimating).toBe(true);
+    expect(onStart).toHaveBeenCalledTimes(1);
+
+    const { velocityPxMs } = onStart.mock.calls[0][0];
+
+    expect(velocityPxMs.x).toBeCloseTo(0.2);
+    expect(velocityPxMs.y).toBeCloseTo(0.1);
+
+    onUpdate.mockClear();
+
+    let timestampMs = 100;
+    while (controller.isAnimating && timestampMs < 10_000) {
+      timestampMs += 16;
+      flushFrame(timestampMs);
+    }
+
+    expect(controller.isAnimating).toBe(false);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+    expect(onEnd.mock.calls[0][0].velocityPxMs).toStrictEqual({ x: 0, y: 0 });
+
+    const { position } = controller.state;
+
+    expect(position.x).toBeGreaterThan(520);
+    expect(position.y).toBeGreaterThan(510);
+    expect(position.x - 520).toBeGreaterThan(position.y - 510);
+    expect(onUpdate).toHaveBeenCalled();
+  });
+
+  it('should settle an axis when it hits a bound', () => {
+    const onEnd = vi.fn();
+    const { scheduler, flushFrame } = createManualScheduler();
+
+    const controller = createInertiaController({
+      initialPosition: { x: 995, y: 500 },
+      getBounds: () => bounds,
+      frameScheduler: scheduler,
+      now: () => 0,
+      friction: 0,
+      emaAlpha: 0,
+      onEnd,
+    });
+
+    controller.fling({ x: 1, y: 0.5 });
+
+    flushFrame(16);
+
+    expect(controller.state).toStrictEqual({
+      position: { x: 1000, y: 508 },
+      velocityPxMs: { x: 1, y: 0.5 },
+    });
+
+    flushFrame(32);
+
+    expect(controller.state).toStrictEqual({
+      position: { x: 1000, y: 516 },
+      velocityPxMs: { x: 0, y: 0.5 },
+    });
+    expect(onEnd).not.toHaveBeenCalled();
+  });
+
+  it('should not start inertia when the pointer rested before release', () => {
+    const onStart = vi.fn();
+    const { scheduler } = createManualScheduler();
+
+    const controller = createInertiaController({
+      getBounds: () => bounds,
+      frameScheduler: scheduler,
+      onStart,
+    });
+
+    controller.pointerDown(0, 0, 0);
+    controller.pointerMove(-50, 0, 20);
+    controller.pointerUp(500);
+
+    expect(controller.isDragging).toBe(false);
+    expect(controller.isAnimating).toBe(false);
+    expect(onStart).not.toHaveBeenCalled();
+  });
+
+  it('should stop inertia when the pointer goes down again', () => {
+    const onEnd = vi.fn();
+    const { scheduler, flushFrame } = createManualScheduler();
+
+    const controller = createInertiaController({
+      initialPosition: { x: 500, y: 500 },
+      frameScheduler: scheduler,
+      now: () => 0,
+      onEnd,
+    });
+
+    controller.fling({ x: 1, y: 1 });
+    flushFrame(16);
+
+    controller.pointerDown(0, 0, 20);
+
+    expect(controller.isAnimating).toBe(false);
+    expect(onEnd).toHaveBeenCalledTimes(1);
+
+    const { position } = controller.state;
+    flushFrame(32);
+
+    expect(controller.state.position).toStrictEqual(position);
+  });
+
+  it('should set the position without animation', () => {
+    const onUpdate = vi.fn();
+    const { scheduler } = createManualScheduler();
+
+    const controller = createInertiaController({ frameScheduler: scheduler, onUpdate });
+
+    controller.setPosition({ x: 10, y: 20 });
+
+    expect(controller.state.position).toStrictEqual({ x: 10, y: 20 });
+    expect(onUpdate).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resist dragging past the bounds with overscroll', () => {
+    const { scheduler } = createManualScheduler();
+
+    const controller = createInertiaController({
+      initialPosition: { x: 0, y: 500 },
+      getBounds: () => bounds,
+      frameScheduler: scheduler,
+      overscroll: { maxOverscrollPx: 50 },
+    });
+
+    controller.pointerDown(0, 0, 0);
+    controller.pointerMove(1000, 0, 10);
+
+    const { x, y } = controller.state.position;
+
+    expect(x).toBeLessThan(0);
+    expect(x).toBeGreaterThan(-50);
+    expect(y).toBe(500);
+  });
+
+  it('should spring back into range after an overscrolled release', () => {
+    const onStart = vi.fn();
+    const onEnd = vi.fn();
+    const { scheduler, flushFrame } = createManualScheduler();
+
+    const controller = createInertiaController({
+      initialPosition: { x: 0, y: 500 },
+      getBounds: () => bounds,
+      frameScheduler: scheduler,
+      now: () => 10,
+      overscroll: {},
+      onStart,
+      onEnd,
+    });
+
+    controller.pointerDown(0, 0, 0);
+    controller.pointerMove(40, 0, 10);
+    controller.pointerUp(500);
+
+    expect(controller.state.position.x).toBeLessThan(0);
+    expect(onStart).toHaveBeenCalledTimes(1);
+
+    let timestampMs = 10;
+    while (controller.isAnimating && timestampMs < 10_000) {
+      timestampMs += 16;
+      flushFrame(timestampMs);
+
+      expect(controller.state.position.x).toBeLessThanOrEqual(0);
+    }
+
+    expect(onEnd).toHaveBeenCalledTimes(1);
+    expect(controller.state).toStrictEqual({
+      position: { x: 0, y: 500 },
+      velocityPxMs: { x: 0, y: 0 },
+    });
+  });
+
+  it('should carry inertia past a bound and spring back with overscroll', () => {
+    const { scheduler, flushFrame } = createManualScheduler();
+
+    const controller = createInertiaController({
+      initialPosition: { x: 990, y: 500 },
+      getBounds: () => bounds,
+      frameScheduler: scheduler,
+      now: () => 0,
+      overscroll: { maxOverscrollPx: 40 },
+    });
+
+    controller.fling({ x: 2, y: 0 });
+
+    let maxX = 0;
+    let timestampMs = 0;
+    while (controller.isAnimating && timestampMs < 10_000) {
+      timestampMs += 16;
+      flushFrame(timestampMs);
+
+      maxX = Math.max(maxX, controller.state.position.x);
+    }
+
+    expect(maxX).toBeGreaterThan(1000);
+    expect(maxX).toBeLessThanOrEqual(1040);
+    expect(controller.state.position.x).toBe(1000);
+  });
+});
@@ -0,0 +1,498 @@
+import type { Axis } from '~/intersection';
+import type { InertiaOptions, OverscrollOptions, SpringOptions } from '~/geometry';
+import { resolveAxisDelta } from '~/intersection';
+import { calculateMovingSpeed } from '~/math';
+import {
+  applyInertiaStep,
+  applySpringStep,
+  resolveBoundedDelta,
+  resolveOverscrollDelta,
+} from '~/geometry';
+
+/**
+ * A two-dimensional value, such as a position or a velocity.
+ */
+export interface InertiaVector {
+  x: number;
+  y: number;
+}
+
+export interface InertiaAxisBounds {
+  /**
+   * Lower bound (inclusive).
+   */
+  min: number;
+  /**
+   * Upper bound (inclusive).
+   */
+  max: number;
+}
+
+export interface InertiaBounds {
+  x: InertiaAxisBounds;
+  y: InertiaAxisBounds;
+}
+
+/**
+ * Schedules animation frames. Mirrors `requestAnimationFrame` / `cancelAnimationFrame`,
+ * and can be replaced to drive the frame loop manually, e.g. in tests.
+ */
+export interface InertiaFrameScheduler {
+  requestFrame: (callback: (timestampMs: number) => void) => number;
+  cancelFrame: (handle: number) => void;
+}
+
+/**
+ * Rubber-band overscroll and spring snap-back configuration of an inertia controller.
+ */
+export interface InertiaOverscrollOptions extends OverscrollOptions, SpringOptions {}
+
+export interface InertiaControllerState {
+  /**
+   * Current position.
+   */
+  position: InertiaVector;
+  /**
+   * Current velocity in pixels per millisecond (`px/ms`). Zero while dragging or at rest.
+   */
+  velocityPxMs: InertiaVector;
+}
+
+export interface InertiaControllerOptions extends Omit<
+  InertiaOptions,
+  'velocityPxMs' | 'deltaTimeMs'
+> {
+  /**
+   * Axis along which movement is applied.
+   *
+   * @default 'both'
+   */
+  axis?: Axis;
+  /**
+   * Whether pointer movement is inverted, as in synthetic scrolling where dragging content down
+   * decreases the scroll offset. Disable it for translate-based movement.
+   *
+   * @default true
+   */
+  invert?: boolean;
+  /**
+   * Initial position.
+   *
+   * @default { x: 0, y: 0 }
+   */
+  initialPosition?: InertiaVector;
+  /**
+   * Returns the current bounds of the position. Called on every movement, so it may reflect
+   * layout changes.
+   *
+   * @default () => ({ x: { min: -Infinity, max: Infinity }, y: { min: -Infinity, max: Infinity } })
+   */
+  getBounds?: () => InertiaBounds;
+  /**
+   * Duration of the most recent pointer movement used to compute the release velocity,
+   * in milliseconds.
+   *
+   * A pointer that rests longer than this before release produces no inertia.
+   *
+   * @default 100
+   */
+  velocitySampleWindowMs?: number;
+  /**
+   * Enables rubber-band overscroll. When set, dragging past the bounds is resisted instead of
+   * stopped, inertia reaching a bound carries past it, and the position springs back into range.
+   *
+   * When omitted, movement hard-stops at the bounds.
+   */
+  overscroll?: InertiaOverscrollOptions;
+  /**
+   * Scheduler driving the inertia frame loop.
+   *
+   * @default requestAnimationFrame / cancelAnimationFrame
+   */
+  frameScheduler?: InertiaFrameScheduler;
+  /**
+   * Returns the current time in milliseconds, in the same time base as the frame timestamps.
+   *
+   * @default () => performance.now()
+   */
+  now?: () => number;
+  /**
+   * Optional callback triggered when inertia starts after a release or a `fling()`.
+   */
+  onStart?: (state: InertiaControllerState) => void;
+  /**
+   * Optional callback triggered whenever the position changes, while dragging or during inertia.
+   */
+  onUpdate?: (state: InertiaControllerState) => void;
+  /**
+   * Optional callback triggered once both axes have settled, including any spring snap-back,
+   * or when inertia is stopped.
+   */
+  onEnd?: (state: InertiaControllerState) => void;
+}
+
+export interface InertiaController {
+  /**
+   * Current position and velocity.
+   */
+  readonly state: InertiaControllerState;
+  /**
+   * Whether the pointer is currently down.
+   */
+  readonly isDragging: boolean;
+  /**
+   * Whether inertia is currently running.
+   */
+  readonly isAnimating: boolean;
+  /**
+   * Starts dragging at the given pointer coordinates, stopping any running inertia.
+   *
+   * @param timeMs - Event time, e.g. `event.timeStamp`. Defaults to `now()`.
+   */
+  pointerDown: (x: number, y: number, timeMs?: number) => void;
+  /**
+   * Moves the position by the pointer movement since the previous call, within bounds.
+   */
+  pointerMove: (x: number, y: number, timeMs?: number) => void;
+  /**
+   * Ends dragging and starts inertia with the velocity of the most recent pointer movement.
+   * With overscroll enabled, an overscrolled position springs back into range.
+   */
+  pointerUp: (timeMs?: number) => void;
+  /**
+   * Starts inertia with the given velocity, e.g. for keyboard or wheel flings.
+   * The velocity is applied as is, without axis resolution.
+   */
+  fling: (velocityPxMs: InertiaVector) => void;
+  /**
+   * Stops running inertia and triggers `onEnd`.
+   */
+  stop: () => void;
+  /**
+   * Sets the position without animation, stopping any running inertia.
+   */
+  setPosition: (position: InertiaVector) => void;
+}
+
+interface PointerSample {
+  x: number;
+  y: number;
+  timeMs: number;
+}
+
+const AXES = ['x', 'y'] as const;
+
+type InertiaAxis = (typeof AXES)[number];
+
+const UNBOUNDED_BOUNDS: InertiaBounds = {
+  x: { min: -Infinity, max: Infinity },
+  y: { min: -Infinity, max: Infinity },
+};
+
+const DEFAULT_FRAME_SCHEDULER: InertiaFrameScheduler = {
+  requestFrame: callback => requestAnimationFrame(callback),
+  cancelFrame: handle => cancelAnimationFrame(handle),
+};
+
+/**
+ * Creates a two-dimensional kinetic movement controller, e.g. for drag-to-scroll surfaces,
+ * maps, or canvases.
+ *
+ * Pointer movement is resolved with `resolveAxisDelta` and applied within bounds. On release,
+ * the velocity of the most recent movement is computed with `calculateMovingSpeed`, and both
+ * axes are advanced with `applyInertiaStep` on every frame until they settle.
+ *
+ * The controller holds no DOM references: apply the reported position in `onUpdate`.
+ *
+ * @param options - Movement, physics and frame loop configuration.
+ *
+ * @returns An inertia controller instance.
+ *
+ * @example
+ * ```ts
+ * const controller = createInertiaController({
+ *   getBounds: () => ({
+ *     x: { min: 0, max: container.scrollWidth - container.clientWidth },
+ *     y: { min: 0, max: container.scrollHeight - container.clientHeight },
+ *   }),
+ *   onUpdate: ({ position }) => container.scrollTo(position.x, position.y),
+ * });
+ *
+ * container.addEventListener('pointerdown', e => controller.pointerDown(e.clientX, e.clientY, e.timeStamp));
+ * container.addEventListener('pointermove', e => controller.pointerMove(e.clientX, e.clientY, e.timeStamp));
+ * container.addEventListener('pointerup', e => controller.pointerUp(e.timeStamp));
+ * ```
+ */
+export const createInertiaController = ({
+  axis = 'both',
+  invert = true,
+  initialPosition = { x: 0, y: 0 },
+  getBounds = () => UNBOUNDED_BOUNDS,
+  velocitySampleWindowMs = 100,
+  overscroll,
+  frameScheduler = DEFAULT_FRAME_SCHEDULER,
+  now = () => performance.now(),
+  friction,
+  minVelocityPxMs,
+  emaAlpha,
+  onStart,
+  onUpdate,
+  onEnd,
+}: InertiaControllerOptions = {}): InertiaController => {
+  const position: InertiaVector = { ...initialPosition };
+  const velocityPxMs: InertiaVector = { x: 0, y: 0 };
+
+  // Axes being pulled back into range by the spring
+  const springingAxes = new Set<InertiaAxis>();
+
+  let samples: PointerSample[] = [];
+  let isDragging = false;
+  let frameHandle: number | null = null;
+  let lastFrameTimeMs = 0;
+
+  const getState = (): InertiaControllerState => ({
+    position: { ...position },
+    velocityPxMs: { ...velocityPxMs },
+  });
+
+  const resolveDelta = (deltaX: number, deltaY: number) =>
+    resolveAxisDelta({ deltaX, deltaY }, axis, { allowFallback: false, invert });
+
+  const isOutOfBounds = (axisKey: InertiaAxis, bounds: InertiaBounds) =>
+    position[axisKey] < bounds[axisKey].min || position[axisKey] > bounds[axisKey].max;
+
+  const isAxisActive = (axisKey: InertiaAxis) =>
+    velocityPxMs[axisKey] !== 0 || springingAxes.has(axisKey);
+
+  const resolveNextValue = (axisKey: InertiaAxis, delta: number, bounds: InertiaBounds) =>
+    overscroll
+      ? resolveOverscrollDelta({
+          ...overscroll,
+          delta,
+          value: position[axisKey],
+          ...bounds[axisKey],
+        })
+      : resolveBoundedDelta({ delta, value: position[axisKey], ...bounds[axisKey] });
+
+  const cancelFrame = () => {
+    if (frameHandle !== null) {
+      frameScheduler.cancelFrame(frameHandle);
+      frameHandle = null;
+    }
+  };
+
+  const stop = () => {
+    if (frameHandle === null) {
+      return;
+    }
+
+    cancelFrame();
+
+    velocityPxMs.x = 0;
+    velocityPxMs.y = 0;
+    springingAxes.clear();
+
+    onEnd?.(getState());
+  };
+
+  const runFrame = (timestampMs: number) => {
+    const deltaTimeMs = Math.max(0, timestampMs - lastFrameTimeMs);
+    lastFrameTimeMs = timestampMs;
+
+    const bounds = getBounds();
+
+    AXES.forEach(axisKey => {
+      const { min, max } = bounds[axisKey];
+
+      if (overscroll && springingAxes.has(axisKey)) {
+        const target = Math.min(Math.max(position[axisKey], min), max);
+        const maxOverscrollPx = overscroll.maxOverscrollPx ?? 100;
+
+        const step = applySpringStep({
+          ...overscroll,
+          value: position[axisKey],
+          target,
+          velocityPxMs: velocityPxMs[axisKey],
+          deltaTimeMs,
+        });
+
+        if (step) {
+          position[axisKey] = Math.min(
+            Math.max(step.value, min - maxOverscrollPx),
+            max + maxOverscrollPx,
+          );
+          velocityPxMs[axisKey] = step.velocityPxMs;
+        } else {
+          position[axisKey] = target;
+          velocityPxMs[axisKey] = 0;
+
+          springingAxes.delete(axisKey);
+        }
+
+        return;
+      }
+
+      if (!velocityPxMs[axisKey]) {
+        return;
+      }
+
+      const step = applyInertiaStep({
+        value: position[axisKey],
+        min,
+        max,
+        velocityPxMs: velocityPxMs[axisKey],
+        deltaTimeMs,
+        friction,
+        minVelocityPxMs,
+        emaAlpha,
+      });
+
+      if (step) {
+        position[axisKey] = step.value;
+        velocityPxMs[axisKey] = step.velocityPxMs;
+        return;
+      }
+
+      const isBlockedByBound =
+        (velocityPxMs[axisKey] < 0 && position[axisKey] <= min) ||
+        (velocityPxMs[axisKey] > 0 && position[axisKey] >= max);
+
+      // With overscroll, the remaining momentum carries past the bound and springs back
+      if (overscroll && isBlockedByBound) {
+        springingAxes.add(axisKey);
+        return;
+      }
+
+      velocityPxMs[axisKey] = 0;
+    });
+
+    onUpdate?.(getState());
+
+    if (!AXES.some(isAxisActive)) {
+      frameHandle = null;
+
+      onEnd?.(getState());
+      return;
+    }
+
+    frameHandle = frameScheduler.requestFrame(runFrame);
+  };
+
+  const fling = (nextVelocityPxMs: InertiaVector) => {
+    cancelFrame();
+
+    velocityPxMs.x = nextVelocityPxMs.x;
+    velocityPxMs.y = nextVelocityPxMs.y;
+    springingAxes.clear();
+
+    if (overscroll) {
+      const bounds = getBounds();
+
+      AXES.forEach(axisKey => {
+        if (isOutOfBounds(axisKey, bounds)) {
+          springingAxes.add(axisKey);
+        }
+      });
+    }
+
+    if (!AXES.some(isAxisActive)) {
+      return;
+    }
+
+    lastFrameTimeMs = now();
+    frameHandle = frameScheduler.requestFrame(runFrame);
+
+    onStart?.(getState());
+  };
+
+  const getReleaseVelocity = (releaseTimeMs: number): InertiaVector => {
+    const lastSample = samples[samples.length - 1];
+    // A pointer resting before release should not produce inertia
+    if (!lastSample || releaseTimeMs - lastSample.timeMs > velocitySampleWindowMs) {
+      return { x: 0, y: 0 };
+    }
+
+    const firstSample =
+      samples.find(sample => releaseTimeMs - sample.timeMs <= velocitySampleWindowMs) ?? lastSample;
+
+    const elapsedTimeMs = lastSample.timeMs - firstSample.timeMs;
+    if (elapsedTimeMs <= 0) {
+      return { x: 0, y: 0 };
+    }
+
+    const distanceX = lastSample.x - firstSample.x;
+    const distanceY = lastSample.y - firstSample.y;
+
+    const { deltaX, deltaY } = resolveDelta(
+      Math.sign(distanceX) * calculateMovingSpeed(distanceX, elapsedTimeMs),
+      Math.sign(distanceY) * calculateMovingSpeed(distanceY, elapsedTimeMs),
+    );
+
+    return { x: deltaX, y: deltaY };
+  };
+
+  return {
+    get state() {
+      return getState();
+    },
+    get isDragging() {
+      return isDragging;
+    },
+    get isAnimating() {
+      return frameHandle !== null;
+    },
+    pointerDown: (x, y, timeMs = now()) => {
+      stop();
+
+      isDragging = true;
+      samples = [{ x, y, timeMs }];
+    },
+    pointerMove: (x, y, timeMs = now()) => {
+      if (!isDragging) {
+        return;
+      }
+
+      const previousSample = samples[samples.length - 1];
+      const { deltaX, deltaY } = resolveDelta(x - previousSample.x, y - previousSample.y);
+
+      samples = [
+        ...samples.filter(sample => timeMs - sample.timeMs <= velocitySampleWindowMs),
+        { x, y, timeMs },
+      ];
+
+      const bounds = getBounds();
+
+      const nextX = resolveNextValue('x', deltaX, bounds) ?? position.x;
+      const nextY = resolveNextValue('y', deltaY, bounds) ?? position.y;
+
+      if (nextX === position.x && nextY === position.y) {
+        return;
+      }
+
+      position.x = nextX;
+      position.y = nextY;
+
+      onUpdate?.(getState());
+    },
+    pointerUp: (timeMs = now()) => {
+      if (!isDragging) {
+        return;
+      }
+
+      isDragging = false;
+
+      fling(getReleaseVelocity(timeMs));
+      samples = [];
+    },
+    fling,
+    stop,
+    setPosition: nextPosition => {
+      stop();
+
+      position.x = nextPosition.x;
+      position.y = nextPosition.y;
+
+      onUpdate?.(getState());
+    },
+  };
+};
@@ -0,0 +1,86 @@
+import { createSnapTrajectory } from './create-snap-trajectory';
+
+describe('createSnapTrajectory', () => {
+  it('should start at the value with the given velocity', () => {
+    const trajectory = createSnapTrajectory({
+      value: 0,
+      target: 300,
+      velocityPxMs: 1,
+    });
+
+    expect(trajectory.durationMs).toBe(600);
+    expect(trajectory.getPoint(0)).toStrictEqual({
+      value: 0,
+      velocityPxMs: 1,
+      isComplete: false,
+    });
+  });
+
+  it('should end at rest exactly on the target', () => {
+    const trajectory = createSnapTrajectory({
+      value: 100,
+      target: -200,
+      velocityPxMs: -3,
+    });
+
+    expect(trajectory.durationMs).toBe(200);
+    expect(trajectory.getPoint(199.999).value).toBeCloseTo(-200);
+    expect(trajectory.getPoint(199.999).velocityPxMs).toBeCloseTo(0);
+    expect(trajectory.getPoint(200)).toStrictEqual({
+      value: -200,
+      velocityPxMs: 0,
+      isComplete: true,
+    });
+  });
+
+  it('should move monotonically without passing the target', () => {
+    const trajectory = createSnapTrajectory({
+      value: 0,
+      target: 20,
+      velocityPxMs: 5,
+    });
+
+    expect(trajectory.durationMs).toBe(150);
+    expect(trajectory.getPoint(0).velocityPxMs).toBeCloseTo(0.4);
+
+    let previousValue = 0;
+    for (let elapsedMs = 0; elapsedMs <= trajectory.durationMs; elapsedMs += 5) {
+      const { value } = trajectory.getPoint(elapsedMs);
+
+      expect(value).toBeGreaterThanOrEqual(previousValue);
+      expect(value).toBeLessThanOrEqual(20);
+
+      previousValue = value;
+    }
+  });
+
+  it('should use the max duration without velocity toward the target', () => {
+    const trajectory = createSnapTrajectory({
+      value: 0,
+      target: 300,
+      velocityPxMs: -1,
+    });
+
+    expect(trajectory.durationMs).toBe(600);
+    expect(trajectory.getPoint(0).velocityPxMs).toBe(-1);
+    expect(trajectory.getPoint(300).value).toBeGreaterThan(0);
+  });
+
+  it('should respect a fixed duration', () => {
+    const trajectory = createSnapTrajectory({
+      value: 0,
+      target: 100,
+      durationMs: 1000,
+    });
+
+    expect(trajectory.durationMs).toBe(1000);
+    expect(trajectory.getPoint(500).value).toBeCloseTo(50);
+  });
+
+  it('should complete immediately when already on the target', () => {
+    const trajectory = createSnapTrajectory({ value: 50, target: 50 });
+
+    expect(trajectory.durationMs).toBe(0);
+    expect(trajectory.getPoint(0).isComplete).toBe(true);
+  });
+});
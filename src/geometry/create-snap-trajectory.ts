@@ -0,0 +1,175 @@
+interface CreateSnapTrajectoryOptions {
+  /**
+   * Value at which the trajectory starts.
+   */
+  value: number;
+  /**
+   * Value at which the trajectory ends, e.g. a snap point from {@link resolveSnapTarget}.
+   */
+  target: number;
+  /**
+   * Velocity at the start of the trajectory, in pixels per millisecond (`px/ms`),
+   * e.g. the release velocity of a drag.
+   *
+   * @default 0
+   */
+  velocityPxMs?: number;
+  /**
+   * Fixed duration of the trajectory, in milliseconds.
+   *
+   * When omitted, the duration is derived from the distance and the velocity toward the target,
+   * limited by `minDurationMs` and `maxDurationMs`.
+   */
+  durationMs?: number;
+  /**
+   * Lower limit of the derived duration, in milliseconds.
+   *
+   * @default 150
+   */
+  minDurationMs?: number;
+  /**
+   * Upper limit of the derived duration, in milliseconds. Also used when there is no velocity
+   * toward the target.
+   *
+   * @default 600
+   */
+  maxDurationMs?: number;
+}
+
+export interface SnapTrajectoryPoint {
+  /**
+   * Value at the sampled time.
+   */
+  value: number;
+  /**
+   * Velocity at the sampled time, in pixels per millisecond (`px/ms`).
+   */
+  velocityPxMs: number;
+  /**
+   * Whether the trajectory has reached the target.
+   */
+  isComplete: boolean;
+}
+
+export interface SnapTrajectory {
+  /**
+   * Value at which the trajectory ends.
+   */
+  target: number;
+  /**
+   * Total duration of the trajectory, in milliseconds.
+   */
+  durationMs: number;
+  /**
+   * Samples the trajectory at the given time since its start.
+   * Times past `durationMs` return the target at rest.
+   */
+  getPoint: (elapsedMs: number) => SnapTrajectoryPoint;
+}
+
+/**
+ * Creates a smooth trajectory from a value to a snap target.
+ *
+ * The trajectory is a cubic Hermite curve that starts with the given velocity and ends at rest
+ * exactly on the target, so motion continues seamlessly from a drag or a fling. The start
+ * velocity is capped so the curve never passes the target.
+ *
+ * Unlike {@link applyInertiaStep}, the trajectory is time-based: sample it with the time elapsed
+ * since the start of the animation instead of the time between frames.
+ *
+ * @returns A snap trajectory.
+ *
+ * @example
+ * ```ts
+ * const trajectory = createSnapTrajectory({
+ *   value: scrollLeft,
+ *   target: resolveSnapTarget({ value: scrollLeft, velocityPxMs, snapPoints, mode: 'page' }),
+ *   velocityPxMs,
+ * });
+ *
+ * const startTimeMs = performance.now();
+ *
+ * const animate = (timestampMs: number) => {
+ *   const { value, isComplete } = trajectory.getPoint(timestampMs - startTimeMs);
+ *
+ *   container.scrollLeft = value;
+ *
+ *   if (!isComplete) {
+ *     requestAnimationFrame(animate);
+ *   }
+ * };
+ *
+ * requestAnimationFrame(animate);
+ * ```
+ */
+export const createSnapTrajectory = ({
+  value,
+  target,
+  velocityPxMs = 0,
+  durationMs,
+  minDurationMs = 150,
+  maxDurationMs = 600,
+}: CreateSnapTrajectoryOptions): SnapTrajectory => {
+  const distance = target - value;
+  const speedTowardTargetPxMs = Math.sign(distance) * velocityPxMs;
+
+  const resolvedDurationMs =
+    durationMs ??
+    (distance === 0
+      ? 0
+      : Math.min(
+          Math.max(
+            speedTowardTargetPxMs > 0
+              ? (2 * Math.abs(distance)) / speedTowardTargetPxMs
+              : maxDurationMs,
+            minDurationMs,
+          ),
+          maxDurationMs,
+        ));
+
+  // A cubic Hermite curve ending at rest passes its end point when `|v| * T > 3 * |distance|`
+  const maxStartSpeedPxMs =
+    resolvedDurationMs > 0 ? (3 * Math.abs(distance)) / resolvedDurationMs : 0;
+
+  const startVelocityPxMs =
+    Math.sign(velocityPxMs) * Math.min(Math.abs(velocityPxMs), maxStartSpeedPxMs);
+
+  const getPoint = (elapsedMs: number): SnapTrajectoryPoint => {
+    if (elapsedMs >= resolvedDurationMs) {
+      return {
+        value: target,
+        velocityPxMs: 0,
+        isComplete: true,
+      };
+    }
+
+    const progress = Math.max(0, elapsedMs) / resolvedDurationMs;
+    const progressSquared = progress * progress;
+    const progressCubed = progressSquared * progress;
+
+    // Hermite basis functions for the start value, start tangent and end value
+    const startWeight = 2 * progressCubed - 3 * progressSquared + 1;
+    const tangentWeight = progressCubed - 2 * progressSquared + progress;
+    const targetWeight = -2 * progressCubed + 3 * progressSquared;
+
+    const startWeightRate = 6 * progressSquared - 6 * progress;
+    const tangentWeightRate = 3 * progressSquared - 4 * progress + 1;
+
+    return {
+      value:
+        startWeight * value +
+        tangentWeight * startVelocityPxMs * resolvedDurationMs +
+        targetWeight * target,
+      velocityPxMs:
+        (startWeightRate * (value - target)) / resolvedDurationMs +
+        tangentWeightRate * startVelocityPxMs,
+      isComplete: false,
+    };
+  };
+
+  return {
+    target,
+    durationMs: resolvedDurationMs,
+    getPoint,
+  };
+};
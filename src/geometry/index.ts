@@ -1,3 +1,9 @@
 export * from './layout';
 export * from './resolve-bounded-delta';
+export * from './resolve-overscroll-delta';
 export * from './apply-inertia-step';
+export * from './apply-spring-step';
+export * from './predict-inertia-resting-value';
+export * from './resolve-snap-target';
+export * from './create-snap-trajectory';
+export * from './create-inertia-controller';
@@ -0,0 +1,83 @@
+import { applyInertiaStep } from './apply-inertia-step';
+import { predictInertiaRestingValue } from './predict-inertia-resting-value';
+
+const simulateInertia = ({
+  value,
+  velocityPxMs,
+  min = -Infinity,
+  max = Infinity,
+  emaAlpha,
+}: {
+  value: number;
+  velocityPxMs: number;
+  min?: number;
+  max?: number;
+  emaAlpha?: number;
+}) => {
+  let currentValue = value;
+  let currentVelocityPxMs = velocityPxMs;
+
+  for (;;) {
+    const result = applyInertiaStep({
+      value: currentValue,
+      min,
+      max,
+      velocityPxMs: currentVelocityPxMs,
+      deltaTimeMs: 1000 / 60,
+      emaAlpha,
+    });
+
+    if (!result) {
+      return currentValue;
+    }
+
+    currentValue = result.value;
+    currentVelocityPxMs = result.velocityPxMs;
+  }
+};
+
+describe('predictInertiaRestingValue', () => {
+  it('should return the value when velocity is below the threshold', () => {
+    const result = predictInertiaRestingValue({
+      value: 40,
+      velocityPxMs: 0.005,
+    });
+
+    expect(result).toBe(40);
+  });
+
+  it('should match repeated inertia steps without EMA smoothing', () => {
+    const result = predictInertiaRestingValue({
+      value: 0,
+      velocityPxMs: 2,
+      emaAlpha: 0,
+    });
+
+    expect(result).toBeCloseTo(simulateInertia({ value: 0, velocityPxMs: 2, emaAlpha: 0 }), 6);
+  });
+
+  it('should match repeated inertia steps with EMA smoothing', () => {
+    const result = predictInertiaRestingValue({
+      value: 100,
+      velocityPxMs: -1.3,
+    });
+
+    expect(result).toBeCloseTo(simulateInertia({ value: 100, velocityPxMs: -1.3 }), 6);
+  });
+
+  it('should limit the prediction to bounds', () => {
+    expect(predictInertiaRestingValue({ value: 0, velocityPxMs: 2, max: 300 })).toBe(300);
+    expect(predictInertiaRestingValue({ value: 0, velocityPxMs: -2, min: -50 })).toBe(-50);
+  });
+
+  it('should travel to the bound when there is no friction', () => {
+    const result = predictInertiaRestingValue({
+      value: 0,
+      velocityPxMs: 1,
+      friction: 0,
+      max: 500,
+    });
+
+    expect(result).toBe(500);
+  });
+});
@@ -0,0 +1,84 @@
+import type { InertiaOptions } from '~/geometry';
+
+export interface PredictInertiaRestingValueOptions extends Omit<InertiaOptions, 'deltaTimeMs'> {
+  /**
+   * Current numeric value before inertia starts.
+   */
+  value: number;
+  /**
+   * Lower bound for the value (inclusive).
+   *
+   * @default -Infinity
+   */
+  min?: number;
+  /**
+   * Upper bound for the value (inclusive).
+   *
+   * @default Infinity
+   */
+  max?: number;
+  /**
+   * Expected time between inertia steps, in milliseconds.
+   *
+   * Only affects the prediction when EMA smoothing is enabled.
+   *
+   * @default 1000 / 60
+   */
+  deltaTimeMs?: number;
+}
+
+/**
+ * Predicts the value at which inertia started with the given velocity comes to rest,
+ * without running the animation.
+ *
+ * The prediction matches repeated {@link applyInertiaStep} calls with a constant `deltaTimeMs`:
+ * velocity decays by the same ratio on every step, so the travelled distance is the sum of
+ * a geometric series, stopped at the step where velocity falls below `minVelocityPxMs` and
+ * limited by the bounds.
+ *
+ * Useful for choosing a snap point before the motion starts (see {@link resolveSnapTarget}).
+ *
+ * @returns The predicted resting value within `[min, max]`.
+ *
+ * @example
+ * ```ts
+ * predictInertiaRestingValue({ value: 0, velocityPxMs: 2, emaAlpha: 0 });
+ * // → ~1011.5
+ *
+ * predictInertiaRestingValue({ value: 0, velocityPxMs: 2, max: 300 });
+ * // → 300
+ * ```
+ */
+export const predictInertiaRestingValue = ({
+  value,
+  velocityPxMs,
+  min = -Infinity,
+  max = Infinity,
+  deltaTimeMs = 1000 / 60,
+  friction = 0.002,
+  minVelocityPxMs = 0.01,
+  emaAlpha = 0.2,
+}: PredictInertiaRestingValueOptions): number => {
+  const speedPxMs = Math.abs(velocityPxMs);
+
+  if (speedPxMs === 0 || speedPxMs < minVelocityPxMs || deltaTimeMs <= 0) {
+    return value;
+  }
+
+  const decay = Math.exp(-friction * deltaTimeMs);
+  // Velocity ratio between two consecutive steps, matching `applyInertiaStep`
+  const decayRatio = emaAlpha > 0 ? 1 - emaAlpha + decay * emaAlpha : decay;
+
+  if (decayRatio >= 1) {
+    return velocityPxMs > 0 ? max : min;
+  }
+
+  // A step is applied only while the velocity after it stays above the threshold
+  const stepCount =
+    decayRatio > 0 ? Math.floor(Math.log(minVelocityPxMs / speedPxMs) / Math.log(decayRatio)) : 0;
+
+  const distance =
+    (velocityPxMs * deltaTimeMs * (1 - Math.pow(decayRatio, stepCount))) / (1 - decayRatio);
+
+  return Math.min(Math.max(value + distance, min), max);
+};
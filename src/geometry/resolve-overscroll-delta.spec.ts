@@ -0,0 +1,90 @@
+import { resolveOverscrollDelta } from './resolve-overscroll-delta';
+
+describe('resolveOverscrollDelta', () => {
+  it('should return the value unchanged when delta is zero', () => {
+    const result = resolveOverscrollDelta({
+      value: 120,
+      delta: 0,
+      min: 0,
+      max: 100,
+    });
+
+    expect(result).toBe(120);
+  });
+
+  it('should apply delta within bounds without resistance', () => {
+    const result = resolveOverscrollDelta({
+      value: 50,
+      delta: -20,
+      min: 0,
+      max: 100,
+    });
+
+    expect(result).toBe(30);
+  });
+
+  it('should resist movement past the max bound', () => {
+    const result = resolveOverscrollDelta({
+      value: 90,
+      delta: 20,
+      min: 0,
+      max: 100,
+      maxOverscrollPx: 100,
+      resistance: 0.5,
+    });
+
+    // 10px within bounds, then (10 * 100 * 0.5) / (100 + 0.5 * 10)
+    expect(result).toBeCloseTo(100 + 500 / 105);
+  });
+
+  it('should resist movement past the min bound', () => {
+    const result = resolveOverscrollDelta({
+      value: 0,
+      delta: -10,
+      min: 0,
+      max: 100,
+    });
+
+    expect(result).toBeLessThan(0);
+    expect(result).toBeGreaterThan(-10);
+  });
+
+  it('should increase resistance progressively', () => {
+    const first = resolveOverscrollDelta({ value: 100, delta: 20, min: 0, max: 100 });
+    const second = resolveOverscrollDelta({ value: first, delta: 20, min: 0, max: 100 });
+
+    expect(second - first).toBeLessThan(first - 100);
+  });
+
+  it('should never reach the max overscroll distance', () => {
+    const result = resolveOverscrollDelta({
+      value: 100,
+      delta: 100_000,
+      min: 0,
+      max: 100,
+      maxOverscrollPx: 50,
+    });
+
+    expect(result).toBeLessThan(150);
+    expect(result).toBeGreaterThan(149);
+  });
+
+  it('should retrace the same curve when moving back', () => {
+    const overscrolled = resolveOverscrollDelta({ value: 80, delta: 60, min: 0, max: 100 });
+    const result = resolveOverscrollDelta({ value: overscrolled, delta: -60, min: 0, max: 100 });
+
+    expect(result).toBeCloseTo(80);
+  });
+
+  it('should move from an overscrolled position back within bounds', () => {
+    const result = resolveOverscrollDelta({
+      value: -10,
+      delta: 200,
+      min: 0,
+      max: 500,
+    });
+
+    expect(result).toBeGreaterThan(0);
+    expect(result).toBeLessThan(200);
+  });
+});
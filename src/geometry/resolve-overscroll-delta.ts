@@ -0,0 +1,126 @@
+export interface OverscrollOptions {
+  /**
+   * Maximum distance the value may travel past a bound, in pixels.
+   *
+   * The value approaches this distance asymptotically and never reaches it.
+   *
+   * @default 100
+   */
+  maxOverscrollPx?: number;
+  /**
+   * Rubber-band resistance coefficient.
+   *
+   * Controls how much of the initial movement past a bound is applied:
+   * - `0.3` — stiff band, little overscroll
+   * - `0.55` — native iOS feel (default)
+   * - `1` — no initial resistance, resistance only grows with distance
+   *
+   * @default 0.55
+   */
+  resistance?: number;
+}
+
+interface ResolveOverscrollDeltaOptions extends OverscrollOptions {
+  /**
+   * Incremental change to apply to the current value.
+   *
+   * The sign of this value determines the direction of movement:
+   * - Negative values move toward the minimum bound
+   * - Positive values move toward the maximum bound
+   */
+  delta: number;
+  /**
+   * Current numeric value before applying the delta. May already be past a bound.
+   */
+  value: number;
+  /**
+   * Minimum value reachable without resistance (inclusive).
+   */
+  min: number;
+  /**
+   * Maximum value reachable without resistance (inclusive).
+   */
+  max: number;
+}
+
+/**
+ * Share of `maxOverscrollPx` used in place of larger overscroll distances,
+ * keeping the inverse rubber-band function finite.
+ */
+const MAX_OVERSCROLL_RATIO = 0.999;
+
+/**
+ * Rubber-band function mapping an unresisted distance past a bound to the applied overscroll.
+ */
+const applyRubberBand = (distance: number, maxOverscrollPx: number, resistance: number) =>
+  (distance * maxOverscrollPx * resistance) / (maxOverscrollPx + resistance * distance);
+
+/**
+ * Inverse of {@link applyRubberBand}, mapping an applied overscroll back to the unresisted distance.
+ */
+const revertRubberBand = (overscroll: number, maxOverscrollPx: number, resistance: number) => {
+  const clampedOverscroll = Math.min(overscroll, maxOverscrollPx * MAX_OVERSCROLL_RATIO);
+
+  return (
+    (clampedOverscroll * maxOverscrollPx) / (resistance * (maxOverscrollPx - clampedOverscroll))
+  );
+};
+
+/**
+ * Resolves the next numeric value by applying a delta with **rubber-band overscroll**.
+ *
+ * Unlike {@link resolveBoundedDelta}, which hard-stops at the bounds, this function lets the value
+ * move past `min` and `max` with progressively increasing resistance, approaching
+ * `maxOverscrollPx` without ever reaching it:
+ *
+ * `overscroll = (distance * maxOverscrollPx * resistance) / (maxOverscrollPx + resistance * distance)`
+ *
+ * The delta is applied to the unresisted distance, so moving back toward the bounds retraces
+ * the same curve and movement within the bounds is applied as is.
+ *
+ * Use {@link applySpringStep} to animate the value back into range once the interaction ends.
+ *
+ * @returns The next value, possibly outside of `[min, max]`.
+ *
+ * @example
+ * ```ts
+ * resolveOverscrollDelta({ value: 90, delta: 20, min: 0, max: 100 });
+ * // → ~105.2 (10px within bounds, 10px past the max bound with resistance)
+ *
+ * resolveOverscrollDelta({ value: 50, delta: 10, min: 0, max: 100 });
+ * // → 60
+ * ```
+ */
+export const resolveOverscrollDelta = ({
+  delta,
+  value,
+  min,
+  max,
+  maxOverscrollPx = 100,
+  resistance = 0.55,
+}: ResolveOverscrollDeltaOptions): number => {
+  if (delta === 0) {
+    return value;
+  }
+
+  // Move into the unresisted space, where the delta can be applied linearly
+  let unresistedValue = value;
+
+  if (value < min) {
+    unresistedValue = min - revertRubberBand(min - value, maxOverscrollPx, resistance);
+  } else if (value > max) {
+    unresistedValue = max + revertRubberBand(value - max, maxOverscrollPx, resistance);
+  }
+
+  const candidate = unresistedValue + delta;
+
+  if (candidate < min) {
+    return min - applyRubberBand(min - candidate, maxOverscrollPx, resistance);
+  }
+
+  if (candidate > max) {
+    return max + applyRubberBand(candidate - max, maxOverscrollPx, resistance);
+  }
+
+  return candidate;
+};
@@ -0,0 +1,69 @@
+import { predictInertiaRestingValue } from './predict-inertia-resting-value';
+import { resolveSnapTarget } from './resolve-snap-target';
+
+describe('resolveSnapTarget', () => {
+  const snapPoints = [0, 300, 600, 900, 1200];
+
+  it('should throw when no snap points are provided', () => {
+    expect(() => resolveSnapTarget({ value: 0, velocityPxMs: 1, snapPoints: [] })).toThrow(
+      '[@react-hive/honey-utils]: At least one snap point is required.',
+    );
+  });
+
+  it('should snap to the nearest point to the current value without velocity', () => {
+    expect(resolveSnapTarget({ value: 420, velocityPxMs: 0, snapPoints, mode: 'page' })).toBe(300);
+    expect(
+      resolveSnapTarget({ value: 480, velocityPxMs: 0.005, snapPoints, mode: 'directional' }),
+    ).toBe(600);
+  });
+
+  it('should snap to the point nearest to the predicted resting value', () => {
+    const options = { value: 0, velocityPxMs: 0.5, emaAlpha: 0 };
+    const restingValue = predictInertiaRestingValue(options);
+
+    expect(restingValue).toBeGreaterThan(150);
+    expect(restingValue).toBeLessThan(300);
+    expect(resolveSnapTarget({ ...options, snapPoints: [300, 0, 600] })).toBe(300);
+  });
+
+  it('should allow the nearest point to be behind the resting value', () => {
+    expect(
+      resolveSnapTarget({ value: 0, velocityPxMs: 0.2, emaAlpha: 0, snapPoints: [0, 300] }),
+    ).toBe(0);
+  });
+
+  it('should snap to the first point beyond the resting value in directional mode', () => {
+    expect(
+      resolveSnapTarget({
+        value: 0,
+        velocityPxMs: 0.2,
+        emaAlpha: 0,
+        snapPoints: [0, 300],
+        mode: 'directional',
+      }),
+    ).toBe(300);
+    expect(
+      resolveSnapTarget({
+        value: 1200,
+        velocityPxMs: -0.2,
+        emaAlpha: 0,
+        snapPoints,
+        mode: 'directional',
+      }),
+    ).toBe(900);
+  });
+
+  it('should move at most one snap point in page mode', () => {
+    expect(resolveSnapTarget({ value: 300, velocityPxMs: 5, snapPoints, mode: 'page' })).toBe(600);
+    expect(resolveSnapTarget({ value: 520, velocityPxMs: -5, snapPoints, mode: 'page' })).toBe(300);
+  });
+
+  it('should fall back to the outermost snap point', () => {
+    expect(resolveSnapTarget({ value: 1200, velocityPxMs: 5, snapPoints, mode: 'page' })).toBe(
+      1200,
+    );
+    expect(
+      resolveSnapTarget({ value: 100, velocityPxMs: -5, snapPoints, mode: 'directional' }),
+    ).toBe(0);
+  });
+});
@@ -0,0 +1,97 @@
+import type { PredictInertiaRestingValueOptions } from '~/geometry';
+import { assert } from '~/guards';
+import { predictInertiaRestingValue } from '~/geometry';
+
+/**
+ * Strategy for choosing the snap point at which inertia ends:
+ *
+ * - `nearest` — the snap point closest to the predicted resting value
+ * - `directional` — the first snap point at or beyond the predicted resting value
+ *   in the direction of motion, so the motion never reverses
+ * - `page` — the next snap point beyond the current value in the direction of motion,
+ *   moving at most one snap point per gesture regardless of velocity
+ */
+export type SnapMode = 'nearest' | 'directional' | 'page';
+
+interface ResolveSnapTargetOptions extends Omit<PredictInertiaRestingValueOptions, 'min' | 'max'> {
+  /**
+   * Values at which motion may come to rest, e.g. slide offsets. Order does not matter.
+   */
+  snapPoints: number[];
+  /**
+   * Strategy for choosing the snap point.
+   *
+   * @default 'nearest'
+   */
+  mode?: SnapMode;
+}
+
+const findNearestSnapPoint = (sortedSnapPoints: number[], value: number) =>
+  sortedSnapPoints.reduce((nearest, snapPoint) =>
+    Math.abs(snapPoint - value) < Math.abs(nearest - value) ? snapPoint : nearest,
+  );
+
+/**
+ * Resolves the snap point at which inertia with the given velocity should come to rest.
+ *
+ * The resting value is predicted with {@link predictInertiaRestingValue} using the same
+ * physics options as {@link applyInertiaStep}, and the target is picked according to `mode`.
+ * When the velocity is below `minVelocityPxMs`, the snap point nearest to the current value
+ * is returned in every mode.
+ *
+ * Pass the result to {@link createSnapTrajectory} to animate the value onto it.
+ *
+ * @returns The chosen snap point.
+ *
+ * @example
+ * ```ts
+ * const slideWidth = 320;
+ * const snapPoints = slides.map((_, index) => index * slideWidth);
+ *
+ * const target = resolveSnapTarget({
+ *   value: scrollLeft,
+ *   velocityPxMs: releaseVelocity,
+ *   snapPoints,
+ *   mode: 'page',
+ * });
+ * ```
+ */
+export const resolveSnapTarget = ({
+  snapPoints,
+  mode = 'nearest',
+  ...predictOptions
+}: ResolveSnapTargetOptions): number => {
+  assert(snapPoints.length > 0, '[@react-hive/honey-utils]: At least one snap point is required.');
+
+  const { value, velocityPxMs, minVelocityPxMs = 0.01 } = predictOptions;
+  const sortedSnapPoints = [...snapPoints].sort((a, b) => a - b);
+
+  if (velocityPxMs === 0 || Math.abs(velocityPxMs) < minVelocityPxMs) {
+    return findNearestSnapPoint(sortedSnapPoints, value);
+  }
+
+  const isForward = velocityPxMs > 0;
+
+  const findNextSnapPoint = (from: number, isInclusive: boolean) => {
+    const snapPoint = isForward
+      ? sortedSnapPoints.find(point => (isInclusive ? point >= from : point > from))
+      : [...sortedSnapPoints].reverse().find(point => (isInclusive ? point <= from : point < from));
+
+    // Past the outermost snap point, fall back to it
+    return (
+      snapPoint ?? (isForward ? sortedSnapPoints[sortedSnapPoints.length - 1] : sortedSnapPoints[0])
+    );
+  };
+
+  if (mode === 'page') {
+    return findNextSnapPoint(value, false);
+  }
+
+  const restingValue = predictInertiaRestingValue(predictOptions);
+
+  if (mode === 'directional') {
+    return findNextSnapPoint(restingValue, true);
+  }
+
+  return findNearestSnapPoint(sortedSnapPoints, restingValue);
+};
@@ -0,0 +1,158 @@
+import { buildTree, flattenTree } from '~/tree';
+
+describe('[buildTree]: reconstruct nested trees from flat node lists', () => {
+  type Item = {
+    id: number;
+    name: string;
+    children: Item[];
+  };
+
+  type Row = {
+    id: number;
+    name: string;
+    parentId: number | null;
+  };
+
+  it('should return an empty array for an empty list', () => {
+    expect(buildTree([] as Row[], 'id', 'children')).toStrictEqual([]);
+  });
+
+  it('should be the inverse of flattenTree', () => {
+    const items: Item[] = [
+      {
+        id: 1,
+        name: 'Fruits',
+        children: [
+          { id: 2, name: 'Pear', children: [] },
+          { id: 3, name: 'Apple', children: [{ id: 4, name: 'Gala', children: [] }] },
+        ],
+      },
+      { id: 5, name: 'Vegetables', children: [] },
+    ];
+
+    const flatTree = flattenTree(items, 'id', 'children');
+    const tree = buildTree(flatTree, 'id', 'children');
+
+    expect(flattenTree(tree, 'id', 'children')).toStrictEqual(flatTree);
+    expect(tree.map(node => node.name)).toStrictEqual(['Fruits', 'Vegetables']);
+    expect(tree[0].children.map(node => node.name)).toStrictEqual(['Pear', 'Apple']);
+  });
+
+  it('should build a tree from rows in any order preserving sibling order', () => {
+    const rows: Row[] = [
+      { id: 3, name: 'Banana', parentId: 1 },
+      { id: 2, name: 'Pear', parentId: 1 },
+      { id: 1, name: 'Fruits', parentId: null },
+    ];
+
+    expect(buildTree(rows, 'id', 'children')).toStrictEqual([
+      {
+        id: 1,
+        name: 'Fruits',
+        parentId: null,
+        children: [
+          { id: 3, name: 'Banana', parentId: 1, children: [] },
+          { id: 2, name: 'Pear', parentId: 1, children: [] },
+        ],
+      },
+    ]);
+  });
+
+  it('should not mutate the input nodes', () => {
+    const rows: Row[] = [
+      { id: 1, name: 'Fruits', parentId: null },
+      { id: 2, name: 'Pear', parentId: 1 },
+    ];
+
+    buildTree(rows, 'id', 'children', { recomputeMetadata: true });
+
+    expect(rows).toStrictEqual([
+      { id: 1, name: 'Fruits', parentId: null },
+      { id: 2, name: 'Pear', parentId: 1 },
+    ]);
+  });
+
+  it('should recompute depthLevel and childCount when requested', () => {
+    const flatTree = [
+      { id: 1, name: 'Fruits', parentId: undefined, depthLevel: 0, childCount: 5 },
+      { id: 2, name: 'Pear', parentId: 1, depthLevel: 3, childCount: 0 },
+    ];
+
+    const [root] = buildTree(flatTree, 'id', 'children', { recomputeMetadata: true });
+
+    expect(root.depthLevel).toBe(0);
+    expect(root.childCount).toBe(1);
+    expect(root.children[0].depthLevel).toBe(1);
+  });
+
+  it('should throw for orphan nodes by default', () => {
+    const rows: Row[] = [{ id: 2, name: 'Pear', parentId: 1 }];
+
+    expect(() => buildTree(rows, 'id', 'children')).toThrow(
+      '[@react-hive/honey-utils]: Parent node "1" of node "2" was not found.',
+    );
+  });
+
+  it('should promote or drop orphan nodes with their subtrees', () => {
+    const rows: Row[] = [
+      { id: 1, name: 'Fruits', parentId: null },
+      { id: 2, name: 'Pear', parentId: 10 },
+      { id: 3, name: 'Conference', parentId: 2 },
+    ];
+
+    const promotedTree = buildTree(rows, 'id', 'children', { orphanStrategy: 'root' });
+
+    expect(promotedTree.map(node => node.id)).toStrictEqual([1, 2]);
+    expect(promotedTree[1].children.map(node => node.id)).toStrictEqual([3]);
+
+    const droppedTree = buildTree(rows, 'id', 'children', { orphanStrategy: 'drop' });
+
+    expect(droppedTree.map(node => node.id)).toStrictEqual([1]);
+  });
+
+  it('should throw for duplicate node ids', () => {
+    const rows: Row[] = [
+      { id: 1, name: 'Fruits', parentId: null },
+      { id: 1, name: 'Vegetables', parentId: null },
+    ];
+
+    expect(() => buildTree(rows, 'id', 'children')).toThrow(
+      '[@react-hive/honey-utils]: Duplicate node id "1".',
+    );
+  });
+
+  it('should throw for cycles in the parent chain', () => {
+    const rows: Row[] = [
+      { id: 1, name: 'Fruits', parentId: null },
+      { id: 2, name: 'A', parentId: 3 },
+      { id: 3, name: 'B', parentId: 2 },
+      { id: 4, name: 'C', parentId: 3 },
+    ];
+
+    expect(() => buildTree(rows, 'id', 'children')).toThrow(
+      '[@react-hive/honey-utils]: Cycle detected in parent chain: 2 → 3 → 2.',
+    );
+    expect(() =>
+      buildTree([{ id: 1, name: 'Self', parentId: 1 }] as Row[], 'id', 'children'),
+    ).toThrow('[@react-hive/honey-utils]: Cycle detected in parent chain: 1 → 1.');
+  });
+
+  it('should tell deep dropped subtrees apart from cycles', () => {
+    const rows: Row[] = Array.from({ length: 20_000 }, (_, index) => ({
+      id: index + 1,
+      name: `Node ${index + 1}`,
+      parentId: index ? index : 0,
+    }));
+
+    expect(buildTree(rows, 'id', 'children', { orphanStrategy: 'drop' })).toStrictEqual([]);
+
+    rows.push(
+      { id: 20_001, name: 'A', parentId: 20_002 },
+      { id: 20_002, name: 'B', parentId: 20_001 },
+    );
+
+    expect(() => buildTree(rows, 'id', 'children', { orphanStrategy: 'drop' })).toThrow(
+      '[@react-hive/honey-utils]: Cycle detected in parent chain: 20001 → 20002 → 20001.',
+    );
+  });
+});
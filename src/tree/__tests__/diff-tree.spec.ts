@@ -0,0 +1,165 @@
+import {
+  diffFlatTrees,
+  diffTrees,
+  flattenTree,
+  insertFlatTreeNode,
+  moveFlatTreeNode,
+  removeFlatTreeNode,
+  updateFlatTreeNode,
+} from '~/tree';
+
+describe('[diffFlatTrees]: compare flat tree snapshots', () => {
+  type Item = {
+    id: number;
+    name: string;
+    meta?: { color: string };
+    children: Item[];
+  };
+
+  const items: Item[] = [
+    {
+      id: 1,
+      name: 'Fruits',
+      children: [
+        { id: 2, name: 'Pear', children: [] },
+        { id: 3, name: 'Apple', children: [{ id: 4, name: 'Gala', children: [] }] },
+        { id: 6, name: 'Plum', children: [] },
+      ],
+    },
+    { id: 5, name: 'Vegetables', children: [] },
+  ];
+
+  const flatTree = flattenTree(items, 'id', 'children');
+
+  it('should report no changes for identical snapshots', () => {
+    expect(diffFlatTrees(flatTree, [...flatTree], 'id')).toStrictEqual({
+      added: [],
+      removed: [],
+      moved: [],
+      updated: [],
+    });
+  });
+
+  it('should report added nodes without marking following siblings as moved', () => {
+    const nextFlatTree = insertFlatTreeNode(flatTree, 'id', { id: 7, name: 'Fig' }, 1, 0);
+
+    const diff = diffFlatTrees(flatTree, nextFlatTree, 'id');
+
+    expect(diff.added.map(node => node.id)).toStrictEqual([7]);
+    expect(diff.moved).toStrictEqual([]);
+    expect(diff.updated).toStrictEqual([]);
+  });
+
+  it('should report all nodes of a removed subtree', () => {
+    const diff = diffFlatTrees(flatTree, removeFlatTreeNode(flatTree, 'id', 3), 'id');
+
+    expect(diff.removed.map(node => node.id)).toStrictEqual([3, 4]);
+    expect(diff.moved).toStrictEqual([]);
+  });
+
+  it('should report parent changes as moves', () => {
+    const diff = diffFlatTrees(flatTree, moveFlatTreeNode(flatTree, 'id', 3, 5), 'id');
+
+    expect(diff.moved).toStrictEqual([
+      {
+        node: expect.objectContaining({ id: 3, parentId: 5 }),
+        previousParentId: 1,
+        nextParentId: 5,
+        previousIndex: 1,
+        nextIndex: 0,
+      },
+    ]);
+    expect(diff.updated).toStrictEqual([]);
+  });
+
+  it('should report the minimal set of reordered siblings', () => {
+    // [2, 3, 6] → [6, 2, 3]: only 6 changed its position relative to the others
+    const diff = diffFlatTrees(flatTree, moveFlatTreeNode(flatTree, 'id', 6, 1, 0), 'id');
+
+    expect(diff.moved).toStrictEqual([
+      {
+        node: expect.objectContaining({ id: 6 }),
+        previousParentId: 1,
+        nextParentId: 1,
+        previousIndex: 2,
+        nextIndex: 0,
+      },
+    ]);
+  });
+
+  it('should report field-level changes of updated nodes', () => {
+    const nextFlatTree = updateFlatTreeNode(flatTree, 'id', 4, () => ({
+      name: 'Golden',
+      meta: { color: 'yellow' },
+    }));
+
+    expect(diffFlatTrees(flatTree, nextFlatTree, 'id').updated).toStrictEqual([
+      {
+        previousNode: flatTree[3],
+        nextNode: nextFlatTree[3],
+        changes: [
+          { key: 'name', previousValue: 'Gala', nextValue: 'Golden' },
+          { key: 'meta', previousValue: undefined, nextValue: { color: 'yellow' } },
+        ],
+      },
+    ]);
+  });
+
+  it('should use the custom equality function', () => {
+    const previousFlatTree = updateFlatTreeNode(flatTree, 'id', 2, () => ({
+      meta: { color: 'green' },
+    }));
+    const nextFlatTree = updateFlatTreeNode(flatTree, 'id', 2, () => ({
+      meta: { color: 'green' },
+    }));
+
+    expect(diffFlatTrees(previousFlatTree, nextFlatTree, 'id').updated).toHaveLength(1);
+    expect(
+      diffFlatTrees(previousFlatTree, nextFlatTree, 'id', {
+        isEqual: (previousValue, nextValue) =>
+          JSON.stringify(previousValue) === JSON.stringify(nextValue),
+      }).updated,
+    ).toStrictEqual([]);
+  });
+
+  it('should throw on duplicate node ids', () => {
+    expect(() => diffFlatTrees(flatTree, [...flatTree, flatTree[0]], 'id')).toThrow(
+      '[@react-hive/honey-utils]: Duplicate node id "1".',
+    );
+  });
+});
+
+describe('[diffTrees]: compare nested tree snapshots', () => {
+  type Item = {
+    id: string;
+    name: string;
+    children?: Item[];
+  };
+
+  it('should compare nested trees without reporting children fields', () => {
+    const previousItems: Item[] = [
+      { id: 'a', name: 'A', children: [{ id: 'b', name: 'B' }] },
+      { id: 'c', name: 'C' },
+    ];
+    const nextItems: Item[] = [
+      { id: 'a', name: 'A' },
+      { id: 'c', name: 'C!', children: [{ id: 'b', name: 'B' }] },
+      { id: 'd', name: 'D' },
+    ];
+
+    const diff = diffTrees(previousItems, nextItems, 'id', 'children');
+
+    expect(diff.added.map(node => node.id)).toStrictEqual(['d']);
+    expect(diff.removed).toStrictEqual([]);
+    expect(
+      diff.moved.map(({ node, previousParentId, nextParentId }) => [
+        node.id,
+        previousParentId,
+        nextParentId,
+      ]),
+    ).toStrictEqual([['b', 'a', 'c']]);
+    expect(diff.updated.map(({ nextNode, changes }) => [nextNode.id, changes])).toStrictEqual([
+      ['c', [{ key: 'name', previousValue: 'C', nextValue: 'C!' }]],
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+import {
+  flattenTree,
+  insertFlatTreeNode,
+  moveFlatTreeNode,
+  removeFlatTreeNode,
+  updateFlatTreeNode,
+} from '~/tree';
+
+describe('[flat tree mutations]: immutable flat tree operations', () => {
+  type Item = {
+    id: number;
+    name: string;
+    children: Item[];
+  };
+
+  const items: Item[] = [
+    {
+      id: 1,
+      name: 'Fruits',
+      children: [
+        { id: 2, name: 'Pear', children: [] },
+        { id: 3, name: 'Apple', children: [{ id: 4, name: 'Gala', children: [] }] },
+      ],
+    },
+    { id: 5, name: 'Vegetables', children: [] },
+  ];
+
+  const flatTree = flattenTree(items, 'id', 'children');
+
+  it('should insert a node with hierarchy metadata', () => {
+    const nextFlatTree = insertFlatTreeNode(flatTree, 'id', { id: 6, name: 'Fuji' }, 3);
+
+    expect(nextFlatTree.map(node => node.id)).toStrictEqual([1, 2, 3, 4, 6, 5]);
+    expect(nextFlatTree[4]).toStrictEqual({
+      id: 6,
+      name: 'Fuji',
+      parentId: 3,
+      depthLevel: 2,
+      childCount: 0,
+    });
+    expect(nextFlatTree[2].childCount).toBe(2);
+    expect(flatTree[2].childCount).toBe(1);
+  });
+
+  it('should remove a node with its subtree', () => {
+    const nextFlatTree = removeFlatTreeNode(flatTree, 'id', 3);
+
+    expect(nextFlatTree.map(node => node.id)).toStrictEqual([1, 2, 5]);
+    expect(nextFlatTree[0].childCount).toBe(1);
+  });
+
+  it('should remove a node keeping its children', () => {
+    const nextFlatTree = removeFlatTreeNode(flatTree, 'id', 1, { keepChildren: true });
+
+    expect(nextFlatTree).toStrictEqual([
+      { id: 2, name: 'Pear', parentId: undefined, depthLevel: 0, childCount: 0 },
+      { id: 3, name: 'Apple', parentId: undefined, depthLevel: 0, childCount: 1 },
+      { id: 4, name: 'Gala', parentId: 3, depthLevel: 1, childCount: 0 },
+      { id: 5, name: 'Vegetables', parentId: undefined, depthLevel: 0, childCount: 0 },
+    ]);
+  });
+
+  it('should move a node with its subtree', () => {
+    const nextFlatTree = moveFlatTreeNode(flatTree, 'id', 3, 5);
+
+    expect(nextFlatTree).toStrictEqual([
+      { id: 1, name: 'Fruits', parentId: undefined, depthLevel: 0, childCount: 1 },
+      { id: 2, name: 'Pear', parentId: 1, depthLevel: 1, childCount: 0 },
+      { id: 5, name: 'Vegetables', parentId: undefined, depthLevel: 0, childCount: 1 },
+      { id: 3, name: 'Apple', parentId: 5, depthLevel: 1, childCount: 1 },
+      { id: 4, name: 'Gala', parentId: 3, depthLevel: 2, childCount: 0 },
+    ]);
+  });
+
+  it('should refuse moves that would create cycles', () => {
+    expect(() => moveFlatTreeNode(flatTree, 'id', 1, 4)).toThrow(
+      '[@react-hive/honey-utils]: Node "1" cannot be moved into its own subtree.',
+    );
+  });
+
+  it('should update node data keeping hierarchy metadata', () => {
+    const nextFlatTree = updateFlatTreeNode(flatTree, 'id', 4, node => ({
+      name: `${node.name} Apple`,
+    }));
+
+    expect(nextFlatTree[3]).toStrictEqual({
+      id: 4,
+      name: 'Gala Apple',
+      parentId: 3,
+      depthLevel: 2,
+      childCount: 0,
+    });
+    expect(nextFlatTree[0]).toBe(flatTree[0]);
+    expect(() => updateFlatTreeNode(flatTree, 'id', 4, () => ({ id: 7 }))).toThrow(
+      '[@react-hive/honey-utils]: The id of node "4" cannot be changed.',
+    );
+  });
+});
@@ -195,4 +195,105 @@ describe('[flattenTree]: flatten hierarchical trees', () => {
       },
     ]);
   });
+
+  it('should flatten deeply nested trees without overflowing the call stack', () => {
+    const root: Item = { id: 0, name: 'Node 0', children: [] };
+
+    let current = root;
+    for (let i = 1; i < 20_000; i++) {
+      const child: Item = { id: i, name: `Node ${i}`, children: [] };
+
+      current.children = [child];
+      current = child;
+    }
+
+    const flatList = flattenTree([root], 'id', 'children');
+
+    expect(flatList).toHaveLength(20_000);
+    expect(flatList[19_999]).toStrictEqual({
+      id: 19_999,
+      name: 'Node 19999',
+      parentId: 19_998,
+      depthLevel: 19_999,
+      childCount: 0,
+    });
+  });
+
+  describe('options', () => {
+    const items: Item[] = [
+      {
+        id: 1,
+        name: 'Vegetables',
+        children: [
+          { id: 3, name: 'Potato', children: [] },
+          {
+            id: 4,
+            name: 'Carrot',
+            children: [{ id: 5, name: 'Baby Carrot', children: [] }],
+          },
+        ],
+      },
+      { id: 2, name: 'Fruits', children: [] },
+    ];
+
+    it('should sort siblings on every level without mutating the input', () => {
+      const flatList = flattenTree(items, 'id', 'children', {
+        sortSiblings: (a, b) => a.name.localeCompare(b.name),
+      });
+
+      expect(flatList.map(node => node.id)).toStrictEqual([2, 1, 4, 5, 3]);
+      expect(items.map(item => item.id)).toStrictEqual([1, 2]);
+    });
+
+    it('should omit nodes deeper than maxDepthLevel and treat nodes at the limit as leaves', () => {
+      const flatList = flattenTree(items, 'id', 'children', { maxDepthLevel: 0 });
+
+      expect(flatList).toStrictEqual([
+        { id: 1, name: 'Vegetables', parentId: undefined, depthLevel: 0, childCount: 0 },
+        { id: 2, name: 'Fruits', parentId: undefined, depthLevel: 0, childCount: 0 },
+      ]);
+    });
+
+    it('should project nodes with layout information', () => {
+      const flatList = flattenTree(items, 'id', 'children', {
+        projectNode: ({ id, depthLevel }, layout) => ({ id, depthLevel, ...layout }),
+      });
+
+      expect(flatList).toStrictEqual([
+        { id: 1, depthLevel: 0, index: 0, path: [1], isLeaf: false, hasNextSibling: true },
+        { id: 3, depthLevel: 1, index: 0, path: [1, 3], isLeaf: true, hasNextSibling: true },
+        { id: 4, depthLevel: 1, index: 1, path: [1, 4], isLeaf: false, hasNextSibling: false },
+        { id: 5, depthLevel: 2, index: 0, path: [1, 4, 5], isLeaf: true, hasNextSibling: false },
+        { id: 2, depthLevel: 0, index: 1, path: [2], isLeaf: true, hasNextSibling: false },
+      ]);
+    });
+
+    it('should only produce custom node types through the projection', () => {
+      // @ts-expect-error A custom node type requires `projectNode`
+      const flatList = flattenTree<Item, { key: string }>(items, 'id', 'children');
+
+      expect(flatList[0]).toStrictEqual({
+        id: 1,
+        name: 'Vegetables',
+        parentId: undefined,
+        depthLevel: 0,
+        childCount: 2,
+      });
+    });
+
+    it('should pass the original item to the projection', () => {
+      const flatList = flattenTree(items, 'id', 'children', {
+        maxDepthLevel: 0,
+        projectNode: (node, _layout, item) => ({
+          id: node.id,
+          sourceChildCount: item.children?.length ?? 0,
+        }),
+      });
+
+      expect(flatList).toStrictEqual([
+        { id: 1, sourceChildCount: 2 },
+        { id: 2, sourceChildCount: 0 },
+      ]);
+    });
+  });
 });
@@ -0,0 +1,158 @@
+import { createLazyTree } from '~/tree';
+import { isAbortError } from '~/async';
+
+describe('[createLazyTree]: load tree children on demand', () => {
+  type Entry = {
+    path: string;
+    name: string;
+  };
+
+  const directories: Record<string, Entry[]> = {
+    root: [
+      { path: '/docs', name: 'docs' },
+      { path: '/src', name: 'src' },
+    ],
+    '/docs': [{ path: '/docs/guides', name: 'guides' }],
+    '/docs/guides': [{ path: '/docs/guides/intro.md', name: 'intro.md' }],
+    '/src': [],
+  };
+
+  const createLoader = () =>
+    vi.fn((parentPath: string | undefined) => Promise.resolve(directories[parentPath ?? 'root']));
+
+  it('should start with an empty tree in idle state', () => {
+    const lazyTree = createLazyTree('path', createLoader());
+
+    expect(lazyTree.getFlatTree()).toStrictEqual([]);
+    expect(lazyTree.getNodeState(undefined)).toStrictEqual({ status: 'idle', error: undefined });
+  });
+
+  it('should merge loaded children with correct hierarchy metadata', async () => {
+    const lazyTree = createLazyTree('path', createLoader());
+
+    await lazyTree.loadChildren(undefined);
+    await lazyTree.loadChildren('/docs');
+    await lazyTree.loadChildren('/docs/guides');
+
+    expect(lazyTree.getFlatTree()).toStrictEqual([
+      { path: '/docs', name: 'docs', parentId: undefined, depthLevel: 0, childCount: 1 },
+      { path: '/docs/guides', name: 'guides', parentId: '/docs', depthLevel: 1, childCount: 1 },
+      {
+        path: '/docs/guides/intro.md',
+        name: 'intro.md',
+        parentId: '/docs/guides',
+        depthLevel: 2,
+        childCount: 0,
+      },
+      { path: '/src', name: 'src', parentId: undefined, depthLevel: 0, childCount: 0 },
+    ]);
+    expect(lazyTree.getNodeState('/docs').status).toBe('loaded');
+    expect(lazyTree.getNodeState('/src').status).toBe('idle');
+  });
+
+  it('should deduplicate concurrent requests and cache loaded children', async () => {
+    const loader = createLoader();
+    const lazyTree = createLazyTree('path', loader);
+
+    const firstRequest = lazyTree.loadChildren(undefined);
+    const secondRequest = lazyTree.loadChildren(undefined);
+
+    expect(lazyTree.getNodeState(undefined).status).toBe('loading');
+    expect(secondRequest).toBe(firstRequest);
+
+    const children = await firstRequest;
+
+    expect(children.map(node => node.path)).toStrictEqual(['/docs', '/src']);
+    expect(await lazyTree.loadChildren(undefined)).toStrictEqual(children);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry failed requests', async () => {
+    const loader = vi
+      .fn<(parentPath: string | undefined) => Promise<Entry[]>>()
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValueOnce(directories.root);
+
+    const lazyTree = createLazyTree('path', loader, { retryOptions: { delayMs: 0 } });
+
+    await lazyTree.loadChildren(undefined);
+
+    expect(loader).toHaveBeenCalledTimes(2);
+    expect(lazyTree.getNodeState(undefined).status).toBe('loaded');
+  });
+
+  it('should expose the error once all attempts failed and allow loading again', async () => {
+    const error = new Error('Network error');
+    const loader = vi
+      .fn<(parentPath: string | undefined) => Promise<Entry[]>>()
+      .mockRejectedValueOnce(error)
+      .mockResolvedValueOnce(directories.root);
+
+    const onChange = vi.fn();
+    const lazyTree = createLazyTree('path', loader, {
+      retryOptions: { maxAttempts: 1 },
+      onChange,
+    });
+
+    await expect(lazyTree.loadChildren(undefined)).rejects.toBe(error);
+
+    expect(lazyTree.getNodeState(undefined)).toStrictEqual({ status: 'error', error });
+    expect(onChange).toHaveBeenCalledTimes(2);
+
+    await lazyTree.loadChildren(undefined);
+
+    expect(lazyTree.getNodeState(undefined)).toStrictEqual({ status: 'loaded', error: undefined });
+  });
+
+  it('should invalidate a subtree and abort its pending requests', async () => {
+    const lazyTree = createLazyTree('path', createLoader());
+
+    await lazyTree.loadChildren(undefined);
+    await lazyTree.loadChildren('/docs');
+
+    const pendingRequest = lazyTree.loadChildren('/docs/guides');
+
+    lazyTree.invalidate('/docs');
+
+    await expect(pendingRequest).rejects.toSatisfy(isAbortError);
+
+    expect(lazyTree.getFlatTree().map(node => node.path)).toStrictEqual(['/docs', '/src']);
+    expect(lazyTree.getNode('/docs')?.childCount).toBe(0);
+    expect(lazyTree.getNodeState('/docs').status).toBe('idle');
+  });
+
+  it('should reload the children of a node', async () => {
+    const loader = createLoader();
+    const lazyTree = createLazyTree('path', loader);
+
+    await lazyTree.loadChildren(undefined);
+    await lazyTree.loadChildren('/docs');
+    await lazyTree.reload(undefined);
+
+    expect(lazyTree.getFlatTree().map(node => node.path)).toStrictEqual(['/docs', '/src']);
+    expect(loader).toHaveBeenCalledTimes(3);
+  });
+
+  it('should reject duplicate node ids without merging any child', async () => {
+    const lazyTree = createLazyTree('path', () =>
+      Promise.resolve([
+        { path: '/a', name: 'a' },
+        { path: '/a', name: 'a' },
+      ]),
+    );
+
+    await expect(lazyTree.loadChildren(undefined)).rejects.toThrow(
+      '[@react-hive/honey-utils]: Duplicate node id "/a".',
+    );
+    expect(lazyTree.getFlatTree()).toStrictEqual([]);
+    expect(lazyTree.getNodeState(undefined).status).toBe('error');
+  });
+
+  it('should throw for unknown nodes', () => {
+    const lazyTree = createLazyTree('path', createLoader());
+
+    expect(() => lazyTree.loadChildren('/unknown')).toThrow(
+      '[@react-hive/honey-utils]: Node "/unknown" was not found.',
+    );
+  });
+});
@@ -1,5 +1,5 @@
 import type { HoneyTreeFlatNode } from '~/tree';
-import { searchTree } from '~/tree';
+import { searchTree, searchTreeWithMatches } from '~/tree';
 
 describe('[searchTree]: search flattened trees with context', () => {
   type Item = {
@@ -81,4 +81,104 @@ describe('[searchTree]: search flattened trees with context', () => {
   it('should include the full subtree when a root node matches', () => {
     expect(searchTree(items2, 'id', 'name', 'Pear')).toEqual([items2[1], items2[2], items2[3]]);
   });
+
+  type Product = {
+    id: number;
+    name: string;
+    sku: string;
+    children?: Product[];
+  };
+
+  const products: HoneyTreeFlatNode<Product, 'children'>[] = [
+    { id: 1, name: 'Kitchen', sku: 'K-100', parentId: undefined, childCount: 2, depthLevel: 0 },
+    { id: 2, name: 'Crème brûlée torch', sku: 'T-200', parentId: 1, childCount: 0, depthLevel: 1 },
+    { id: 3, name: 'Café table', sku: 'C-300', parentId: 1, childCount: 0, depthLevel: 1 },
+    { id: 4, name: 'Garden', sku: 'G-400', parentId: undefined, childCount: 1, depthLevel: 0 },
+    { id: 5, name: 'Cafeteria bench', sku: 'B-500', parentId: 4, childCount: 0, depthLevel: 1 },
+  ];
+
+  const getIds = (nodes: { id: number }[]) => nodes.map(node => node.id);
+
+  it('should match substrings when configured', () => {
+    expect(getIds(searchTree(products, 'id', 'name', 'able'))).toStrictEqual([]);
+    expect(
+      getIds(searchTree(products, 'id', 'name', 'able', { matchMode: 'substring' })),
+    ).toStrictEqual([1, 3]);
+  });
+
+  it('should match fuzzy queries when configured', () => {
+    expect(
+      getIds(searchTree(products, 'id', 'name', 'grdn', { matchMode: 'fuzzy' })),
+    ).toStrictEqual([4, 5]);
+  });
+
+  it('should support custom matchers', () => {
+    const results = searchTree(products, 'id', 'sku', 'c', {
+      matchMode: (value, searchQuery) =>
+        value.startsWith(searchQuery) ? { score: 1, ranges: [[0, 1]] } : null,
+    });
+
+    expect(getIds(results)).toStrictEqual([1, 3]);
+  });
+
+  it('should throw for custom match ranges outside of the value', () => {
+    expect(() =>
+      searchTree(products, 'id', 'sku', 'k', {
+        matchMode: value => (value.startsWith('k') ? { score: 1, ranges: [[0, 10]] } : null),
+      }),
+    ).toThrow('[@react-hive/honey-utils]: Match range [0, 10] is out of bounds of "k-100".');
+  });
+
+  it('should search across multiple fields', () => {
+    expect(getIds(searchTree(products, 'id', ['name', 'sku'], 'b-500'))).toStrictEqual([4, 5]);
+  });
+
+  it('should ignore diacritics when configured', () => {
+    expect(getIds(searchTree(products, 'id', 'name', 'creme'))).toStrictEqual([]);
+    expect(
+      getIds(searchTree(products, 'id', 'name', 'creme brulee', { ignoreDiacritics: true })),
+    ).toStrictEqual([1, 2]);
+  });
+
+  it('should report match metadata with ranges in the original value', () => {
+    const results = searchTreeWithMatches(products, 'id', ['name', 'sku'], 'brul', {
+      ignoreDiacritics: true,
+    });
+
+    expect(results).toStrictEqual([
+      { node: products[0], isMatch: false, score: 0, matches: [] },
+      {
+        node: products[1],
+        isMatch: true,
+        score: 4 / 6,
+        matches: [{ key: 'name', score: 4 / 6, ranges: [[6, 10]] }],
+      },
+    ]);
+  });
+
+  it('should merge ranges of fuzzy matches', () => {
+    const [result] = searchTreeWithMatches(products, 'id', 'name', 'gadn', {
+      matchMode: 'fuzzy',
+    });
+
+    expect(result.matches[0].ranges).toStrictEqual([
+      [0, 2],
+      [3, 4],
+      [5, 6],
+    ]);
+  });
+
+  it('should sort siblings by relevance keeping the hierarchy', () => {
+    // "Café" (1/4) is more relevant than "Crème" (1/5)
+    expect(
+      getIds(searchTree(products, 'id', 'name', 'c', { sortByRelevance: true })),
+    ).toStrictEqual([1, 3, 2, 4, 5]);
+
+    // The "Garden" subtree contains the best match ("bench")
+    expect(
+      getIds(
+        searchTree(products, 'id', 'name', 'en', { matchMode: 'substring', sortByRelevance: true }),
+      ),
+    ).toStrictEqual([4, 5, 1, 2, 3]);
+  });
 });
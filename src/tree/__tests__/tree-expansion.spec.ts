@@ -0,0 +1,101 @@
+import {
+  expandAllTreeNodes,
+  expandToTreeNode,
+  flattenTree,
+  getAdjacentTreeNodes,
+  getVisibleTreeNodes,
+} from '~/tree';
+
+describe('[tree expansion]: visible rows of expandable trees', () => {
+  type Item = {
+    id: number;
+    name: string;
+    children: Item[];
+  };
+
+  const items: Item[] = [
+    {
+      id: 1,
+      name: 'Fruits',
+      children: [
+        { id: 2, name: 'Pear', children: [] },
+        { id: 3, name: 'Apple', children: [{ id: 4, name: 'Gala', children: [] }] },
+      ],
+    },
+    { id: 5, name: 'Vegetables', children: [{ id: 6, name: 'Carrot', children: [] }] },
+  ];
+
+  const flatTree = flattenTree(items, 'id', 'children');
+
+  const getIds = (nodes: { id: number }[]) => nodes.map(node => node.id);
+
+  it('should show only root nodes when everything is collapsed', () => {
+    expect(getIds(getVisibleTreeNodes(flatTree, 'id', new Set()))).toStrictEqual([1, 5]);
+  });
+
+  it('should show children of expanded nodes with expanded ancestors only', () => {
+    expect(getIds(getVisibleTreeNodes(flatTree, 'id', new Set([1])))).toStrictEqual([1, 2, 3, 5]);
+    expect(getIds(getVisibleTreeNodes(flatTree, 'id', new Set([3, 5])))).toStrictEqual([1, 5, 6]);
+  });
+
+  it('should expand all nodes', () => {
+    const expandedNodeIds = expandAllTreeNodes(flatTree, 'id');
+
+    expect([...expandedNodeIds]).toStrictEqual([1, 3, 5]);
+    expect(getIds(getVisibleTreeNodes(flatTree, 'id', expandedNodeIds))).toStrictEqual([
+      1, 2, 3, 4, 5, 6,
+    ]);
+  });
+
+  it('should expand ancestors to reveal a node', () => {
+    const expandedNodeIds = new Set([5]);
+    const nextExpandedNodeIds = expandToTreeNode(flatTree, 'id', expandedNodeIds, 4);
+
+    expect([...nextExpandedNodeIds]).toStrictEqual([5, 3, 1]);
+    expect([...expandedNodeIds]).toStrictEqual([5]);
+    expect(getIds(getVisibleTreeNodes(flatTree, 'id', nextExpandedNodeIds))).toContain(4);
+    expect(() => expandToTreeNode(flatTree, 'id', expandedNodeIds, 10)).toThrow(
+      '[@react-hive/honey-utils]: Node "10" was not found.',
+    );
+  });
+
+  it('should return adjacent nodes for keyboard navigation', () => {
+    const visibleNodes = getVisibleTreeNodes(flatTree, 'id', new Set([1, 3]));
+
+    const { previousNode, currentNode, nextNode, parentNode, firstChildNode } =
+      getAdjacentTreeNodes(visibleNodes, 'id', 3);
+
+    expect(previousNode?.id).toBe(2);
+    expect(currentNode?.id).toBe(3);
+    expect(nextNode?.id).toBe(4);
+    expect(parentNode?.id).toBe(1);
+    expect(firstChildNode?.id).toBe(4);
+  });
+
+  it('should return no first child for collapsed nodes and no parent for roots', () => {
+    const visibleNodes = getVisibleTreeNodes(flatTree, 'id', new Set([1]));
+
+    expect(getAdjacentTreeNodes(visibleNodes, 'id', 3)).toMatchObject({
+      nextNode: { id: 5 },
+      firstChildNode: null,
+    });
+    expect(getAdjacentTreeNodes(visibleNodes, 'id', 1)).toMatchObject({
+      previousNode: null,
+      parentNode: null,
+      firstChildNode: { id: 2 },
+    });
+  });
+
+  it('should return null entries for nodes that are not visible', () => {
+    const visibleNodes = getVisibleTreeNodes(flatTree, 'id', new Set());
+
+    expect(getAdjacentTreeNodes(visibleNodes, 'id', 4)).toStrictEqual({
+      previousNode: null,
+      currentNode: null,
+      nextNode: null,
+      parentNode: null,
+      firstChildNode: null,
+    });
+    expect(getAdjacentTreeNodes(visibleNodes, 'id', null).currentNode).toBeNull();
+  });
+});
@@ -0,0 +1,161 @@
+import { createTreeIndex, flattenTree } from '~/tree';
+
+describe('[createTreeIndex]: indexed flat tree model', () => {
+  type Item = {
+    id: number;
+    name: string;
+    children: Item[];
+  };
+
+  const items: Item[] = [
+    {
+      id: 1,
+      name: 'Fruits',
+      children: [
+        { id: 2, name: 'Pear', children: [] },
+        { id: 3, name: 'Apple', children: [{ id: 4, name: 'Gala', children: [] }] },
+      ],
+    },
+    { id: 5, name: 'Vegetables', children: [] },
+  ];
+
+  const createIndex = () => createTreeIndex(flattenTree(items, 'id', 'children'), 'id');
+
+  const getIds = (nodes: { id: number }[]) => nodes.map(node => node.id);
+
+  it('should look up nodes and their relationships', () => {
+    const treeIndex = createIndex();
+
+    expect(treeIndex.size).toBe(5);
+    expect(treeIndex.has(4)).toBe(true);
+    expect(treeIndex.getNode(4)?.name).toBe('Gala');
+    expect(treeIndex.getNode(10)).toBeUndefined();
+    expect(treeIndex.getParent(4)?.id).toBe(3);
+    expect(treeIndex.getParent(1)).toBeUndefined();
+    expect(getIds(treeIndex.getChildren(1))).toStrictEqual([2, 3]);
+    expect(getIds(treeIndex.getChildren(undefined))).toStrictEqual([1, 5]);
+    expect(getIds(treeIndex.getSiblings(2))).toStrictEqual([3]);
+    expect(getIds(treeIndex.getSiblings(5))).toStrictEqual([1]);
+    expect(getIds(treeIndex.getAncestors(4))).toStrictEqual([3, 1]);
+    expect(getIds(treeIndex.getPath(4))).toStrictEqual([1, 3, 4]);
+    expect(getIds(treeIndex.getDescendants(1))).toStrictEqual([2, 3, 4]);
+  });
+
+  it('should insert nodes with hierarchy metadata', () => {
+    const treeIndex = createIndex();
+
+    const node = treeIndex.insert({ id: 6, name: 'Fuji' }, 3, 0);
+
+    expect(node).toStrictEqual({ id: 6, name: 'Fuji', parentId: 3, depthLevel: 2, childCount: 0 });
+    expect(getIds(treeIndex.getChildren(3))).toStrictEqual([6, 4]);
+    expect(treeIndex.getNode(3)?.childCount).toBe(2);
+    expect(getIds(treeIndex.toFlatTree())).toStrictEqual([1, 2, 3, 6, 4, 5]);
+
+    treeIndex.insert({ id: 7, name: 'Nuts' });
+
+    expect(getIds(treeIndex.getChildren(undefined))).toStrictEqual([1, 5, 7]);
+  });
+
+  it('should move nodes with their subtree and update metadata', () => {
+    const treeIndex = createIndex();
+
+    treeIndex.move(3, 5);
+
+    expect(treeIndex.getNode(1)?.childCount).toBe(1);
+    expect(treeIndex.getNode(5)?.childCount).toBe(1);
+    expect(treeIndex.getNode(3)).toMatchObject({ parentId: 5, depthLevel: 1 });
+    expect(treeIndex.getNode(4)?.depthLevel).toBe(2);
+
+    treeIndex.move(4, undefined, 0);
+
+    expect(treeIndex.getNode(4)).toMatchObject({ parentId: undefined, depthLevel: 0 });
+    expect(getIds(treeIndex.toFlatTree())).toStrictEqual([4, 1, 2, 5, 3]);
+  });
+
+  it('should reorder nodes within the same parent', () => {
+    const treeIndex = createIndex();
+
+    treeIndex.move(3, 1, 0);
+
+    expect(getIds(treeIndex.getChildren(1))).toStrictEqual([3, 2]);
+    expect(treeIndex.getNode(1)?.childCount).toBe(2);
+  });
+
+  it('should refuse moves that would create cycles', () => {
+    const treeIndex = createIndex();
+
+    expect(() => treeIndex.move(1, 4)).toThrow(
+      '[@react-hive/honey-utils]: Node "1" cannot be moved into its own subtree.',
+    );
+    expect(() => treeIndex.move(1, 1)).toThrow();
+    expect(getIds(treeIndex.toFlatTree())).toStrictEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should remove nodes with their subtree', () => {
+    const treeIndex = createIndex();
+
+    expect(getIds(treeIndex.remove(3))).toStrictEqual([3, 4]);
+    expect(treeIndex.size).toBe(3);
+    expect(treeIndex.has(4)).toBe(false);
+    expect(treeIndex.getNode(1)?.childCount).toBe(1);
+    expect(getIds(treeIndex.toFlatTree())).toStrictEqual([1, 2, 5]);
+  });
+
+  it('should not mutate the source nodes', () => {
+    const flatTree = flattenTree(items, 'id', 'children');
+    const treeIndex = createTreeIndex(flatTree, 'id');
+
+    treeIndex.move(4, undefined);
+
+    expect(flatTree[2].childCount).toBe(1);
+    expect(flatTree[3].depthLevel).toBe(2);
+  });
+
+  it('should throw for invalid operations', () => {
+    const treeIndex = createIndex();
+
+    expect(() => treeIndex.getPath(10)).toThrow(
+      '[@react-hive/honey-utils]: Node "10" was not found.',
+    );
+    expect(() => treeIndex.insert({ id: 1, name: 'Duplicate' })).toThrow(
+      '[@react-hive/honey-utils]: Duplicate node id "1".',
+    );
+    expect(() => treeIndex.insert({ id: 6, name: 'Fuji' }, 3, 5)).toThrow(
+      '[@react-hive/honey-utils]: Index 5 is out of range.',
+    );
+    expect(treeIndex.has(6)).toBe(false);
+  });
+
+  it('should throw for cycles in the parent chain', () => {
+    expect(() =>
+      createTreeIndex<Item, 'children'>(
+        [
+          { id: 1, name: 'Root', parentId: undefined, depthLevel: 0, childCount: 0 },
+          { id: 2, name: 'A', parentId: 3, depthLevel: 1, childCount: 1 },
+          { id: 3, name: 'B', parentId: 2, depthLevel: 2, childCount: 1 },
+        ],
+        'id',
+      ),
+    ).toThrow('[@react-hive/honey-utils]: Cycle detected in parent chain: 2 → 3 → 2.');
+  });
+
+  it('should keep sibling order consistent across many mutations', () => {
+    const treeIndex = createTreeIndex<{ id: number }, never>([], 'id');
+
+    for (let id = 1; id <= 20_000; id++) {
+      treeIndex.insert({ id });
+    }
+
+    treeIndex.move(1, undefined);
+    treeIndex.remove(2);
+    treeIndex.insert({ id: 0 }, undefined, 0);
+    treeIndex.move(3, undefined, 1);
+
+    const ids = getIds(treeIndex.toFlatTree());
+
+    expect(ids.slice(0, 4)).toStrictEqual([0, 3, 4, 5]);
+    expect(ids.at(-1)).toBe(1);
+    expect(getIds(treeIndex.getSiblings(4)).slice(0, 2)).toStrictEqual([0, 3]);
+    expect(treeIndex.size).toBe(20_000);
+  });
+});
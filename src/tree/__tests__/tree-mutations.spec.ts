@@ -0,0 +1,125 @@
+import { insertTreeNode, moveTreeNode, removeTreeNode, updateTreeNode } from '~/tree';
+
+describe('[tree mutations]: immutable nested tree operations', () => {
+  type Item = {
+    id: number;
+    name: string;
+    children?: Item[];
+  };
+
+  const createItems = (): Item[] => [
+    {
+      id: 1,
+      name: 'Fruits',
+      children: [
+        { id: 2, name: 'Pear' },
+        { id: 3, name: 'Apple', children: [{ id: 4, name: 'Gala', children: [] }] },
+      ],
+    },
+    { id: 5, name: 'Vegetables', children: [] },
+  ];
+
+  it('should insert a node without mutating the input', () => {
+    const items = createItems();
+
+    const nextItems = insertTreeNode(items, 'id', 'children', { id: 6, name: 'Fuji' }, 3, 0);
+
+    expect(nextItems[0].children?.[1].children?.map(item => item.id)).toStrictEqual([6, 4]);
+    expect(items).toStrictEqual(createItems());
+    // Untouched subtrees are shared
+    expect(nextItems[1]).toBe(items[1]);
+    expect(nextItems[0].children?.[0]).toBe(items[0].children?.[0]);
+  });
+
+  it('should insert root nodes and nodes under parents without children', () => {
+    const items = createItems();
+
+    expect(
+      insertTreeNode(items, 'id', 'children', { id: 6, name: 'Nuts' }).map(item => item.id),
+    ).toStrictEqual([1, 5, 6]);
+    expect(
+      insertTreeNode(items, 'id', 'children', { id: 6, name: 'Conference' }, 2)[0].children?.[0]
+        .children,
+    ).toStrictEqual([{ id: 6, name: 'Conference' }]);
+  });
+
+  it('should remove a node with its subtree', () => {
+    const nextItems = removeTreeNode(createItems(), 'id', 'children', 3);
+
+    expect(nextItems[0].children).toStrictEqual([{ id: 2, name: 'Pear' }]);
+  });
+
+  it('should remove a node keeping its children', () => {
+    const nextItems = removeTreeNode(createItems(), 'id', 'children', 1, { keepChildren: true });
+
+    expect(nextItems.map(item => item.id)).toStrictEqual([2, 3, 5]);
+  });
+
+  it('should move a node with its subtree', () => {
+    const nextItems = moveTreeNode(createItems(), 'id', 'children', 3, 5);
+
+    expect(nextItems[0].children?.map(item => item.id)).toStrictEqual([2]);
+    expect(nextItems[1].children).toStrictEqual([
+      { id: 3, name: 'Apple', children: [{ id: 4, name: 'Gala', children: [] }] },
+    ]);
+  });
+
+  it('should move a node to the root level at the given index', () => {
+    const nextItems = moveTreeNode(createItems(), 'id', 'children', 4, undefined, 0);
+
+    expect(nextItems.map(item => item.id)).toStrictEqual([4, 1, 5]);
+  });
+
+  it('should refuse moves that would create cycles', () => {
+    expect(() => moveTreeNode(createItems(), 'id', 'children', 1, 4)).toThrow(
+      '[@react-hive/honey-utils]: Node "1" cannot be moved into its own subtree.',
+    );
+    expect(() => moveTreeNode(createItems(), 'id', 'children', 3, 3)).toThrow();
+  });
+
+  it('should update node data', () => {
+    const items = createItems();
+
+    const nextItems = updateTreeNode(items, 'id', 'children', 4, item => ({
+      name: `${item.name} Apple`,
+    }));
+
+    expect(nextItems[0].children?.[1].children?.[0]).toStrictEqual({
+      id: 4,
+      name: 'Gala Apple',
+      children: [],
+    });
+    expect(nextItems[1]).toBe(items[1]);
+  });
+
+  it('should throw for unknown nodes, duplicate ids and id changes', () => {
+    const items = createItems();
+
+    expect(() => removeTreeNode(items, 'id', 'children', 10)).toThrow(
+      '[@react-hive/honey-utils]: Node "10" was not found.',
+    );
+    expect(() => insertTreeNode(items, 'id', 'children', { id: 4, name: 'Gala' })).toThrow(
+      '[@react-hive/honey-utils]: Duplicate node id "4".',
+    );
+    expect(() =>
+      insertTreeNode(items, 'id', 'children', {
+        id: 6,
+        name: 'Citrus',
+        children: [
+          { id: 7, name: 'Lemon' },
+          { id: 2, name: 'Pear' },
+        ],
+      }),
+    ).toThrow('[@react-hive/honey-utils]: Duplicate node id "2".');
+    expect(() =>
+      insertTreeNode(items, 'id', 'children', {
+        id: 6,
+        name: 'Citrus',
+        children: [{ id: 6, name: 'Lemon' }],
+      }),
+    ).toThrow('[@react-hive/honey-utils]: Duplicate node id "6".');
+    expect(() => updateTreeNode(items, 'id', 'children', 4, () => ({ id: 7 }))).toThrow(
+      '[@react-hive/honey-utils]: The id of node "4" cannot be changed.',
+    );
+  });
+});
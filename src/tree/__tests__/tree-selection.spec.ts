@@ -0,0 +1,131 @@
+import { createTreeSelection, flattenTree } from '~/tree';
+
+describe('[createTreeSelection]: tri-state checkbox selection', () => {
+  type Item = {
+    id: string;
+    children: Item[];
+  };
+
+  // admin
+  // ├─ users
+  // │  ├─ read
+  // │  └─ write
+  // └─ billing
+  // reports
+  const items: Item[] = [
+    {
+      id: 'admin',
+      children: [
+        {
+          id: 'users',
+          children: [
+            { id: 'read', children: [] },
+            { id: 'write', children: [] },
+          ],
+        },
+        { id: 'billing', children: [] },
+      ],
+    },
+    { id: 'reports', children: [] },
+  ];
+
+  const flatTree = flattenTree(items, 'id', 'children');
+
+  it('should start with everything unchecked', () => {
+    const selection = createTreeSelection(flatTree, 'id');
+
+    expect(selection.getSelectedIds()).toStrictEqual([]);
+    expect(selection.getCheckState('admin')).toBe('unchecked');
+  });
+
+  it('should cascade checks to descendants', () => {
+    const selection = createTreeSelection(flatTree, 'id');
+
+    selection.toggle('users');
+
+    expect(selection.getSelectedIds()).toStrictEqual(['users', 'read', 'write']);
+    expect(selection.getCheckState('users')).toBe('checked');
+    expect(selection.getCheckState('admin')).toBe('indeterminate');
+    expect(selection.getCheckState('billing')).toBe('unchecked');
+  });
+
+  it('should check parents once all children are checked', () => {
+    const selection = createTreeSelection(flatTree, 'id');
+
+    selection.toggle('read');
+
+    expect(selection.getCheckState('users')).toBe('indeterminate');
+    expect(selection.getCheckState('admin')).toBe('indeterminate');
+
+    selection.toggle('write');
+    selection.toggle('billing');
+
+    expect(selection.getCheckState('users')).toBe('checked');
+    expect(selection.getCheckState('admin')).toBe('checked');
+    expect(selection.getMinimalSelectedIds()).toStrictEqual(['admin']);
+  });
+
+  it('should uncheck ancestors when a descendant is unchecked', () => {
+    const selection = createTreeSelection(flatTree, 'id', { selectedNodeIds: ['admin'] });
+
+    expect(selection.getSelectedIds()).toStrictEqual([
+      'admin',
+      'users',
+      'read',
+      'write',
+      'billing',
+    ]);
+
+    selection.toggle('write');
+
+    expect(selection.getCheckState('admin')).toBe('indeterminate');
+    expect(selection.getCheckState('users')).toBe('indeterminate');
+    expect(selection.getMinimalSelectedIds()).toStrictEqual(['read', 'billing']);
+
+    selection.toggle('admin', false);
+
+    expect(selection.getSelectedIds()).toStrictEqual([]);
+    expect(selection.getCheckState('users')).toBe('unchecked');
+  });
+
+  it('should normalize the initial selection', () => {
+    const selection = createTreeSelection(flatTree, 'id', {
+      selectedNodeIds: ['read', 'write', 'billing'],
+    });
+
+    expect(selection.getCheckState('admin')).toBe('checked');
+    expect(selection.getMinimalSelectedIds()).toStrictEqual(['admin']);
+  });
+
+  it('should check nodes independently when configured', () => {
+    const selection = createTreeSelection(flatTree, 'id', {
+      mode: 'independent',
+      selectedNodeIds: ['read'],
+    });
+
+    selection.toggle('admin');
+
+    expect(selection.getSelectedIds()).toStrictEqual(['admin', 'read']);
+    expect(selection.getMinimalSelectedIds()).toStrictEqual(['admin', 'read']);
+    expect(selection.getCheckState('users')).toBe('unchecked');
+
+    selection.toggle('read');
+
+    expect(selection.isChecked('read')).toBe(false);
+  });
+
+  it('should clear the selection', () => {
+    const selection = createTreeSelection(flatTree, 'id', { selectedNodeIds: ['users'] });
+
+    selection.clear();
+
+    expect(selection.getSelectedIds()).toStrictEqual([]);
+    expect(selection.getCheckState('admin')).toBe('unchecked');
+  });
+
+  it('should throw for unknown nodes', () => {
+    expect(() => createTreeSelection(flatTree, 'id', { selectedNodeIds: ['unknown'] })).toThrow(
+      '[@react-hive/honey-utils]: Node "unknown" was not found.',
+    );
+  });
+});
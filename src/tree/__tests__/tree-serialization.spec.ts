@@ -0,0 +1,231 @@
+import type { HoneyTreeTextNode } from '~/tree';
+import {
+  flatTreeToOutline,
+  flatTreeToPaths,
+  flattenTree,
+  outlineToFlatTree,
+  outlineToTree,
+  pathsToFlatTree,
+  pathsToTree,
+  treeToOutline,
+  treeToPaths,
+} from '~/tree';
+
+type Item = {
+  id: number;
+  name: string;
+  children?: Item[];
+};
+
+const items: Item[] = [
+  {
+    id: 1,
+    name: 'Electronics',
+    children: [
+      { id: 2, name: 'Phones', children: [{ id: 3, name: 'Android' }] },
+      { id: 4, name: 'Laptops' },
+    ],
+  },
+  { id: 5, name: 'Books' },
+];
+
+const toLabelTree = (nodes: HoneyTreeTextNode[]): unknown[] =>
+  nodes.map(node => [node.label, toLabelTree(node.children)]);
+
+describe('[treeToPaths]: serialize nested trees to paths', () => {
+  it('should emit the path of every node in preorder', () => {
+    expect(treeToPaths(items, 'name', 'children')).toStrictEqual([
+      'Electronics',
+      'Electronics/Phones',
+      'Electronics/Phones/Android',
+      'Electronics/Laptops',
+      'Books',
+    ]);
+  });
+
+  it('should emit only leaf paths with a custom delimiter', () => {
+    expect(
+      treeToPaths(items, 'name', 'children', { delimiter: ' > ', leavesOnly: true }),
+    ).toStrictEqual(['Electronics > Phones > Android', 'Electronics > Laptops', 'Books']);
+  });
+
+  it('should throw when a label contains the delimiter', () => {
+    const invalidItems: Item[] = [{ id: 1, name: 'A/B' }];
+
+    expect(() => treeToPaths(invalidItems, 'name', 'children')).toThrow(
+      '[@react-hive/honey-utils]: Label "A/B" contains the path delimiter "/".',
+    );
+  });
+});
+
+describe('[flatTreeToPaths]: serialize flat trees to paths', () => {
+  it('should produce the same paths as the nested tree', () => {
+    const flatTree = flattenTree(items, 'id', 'children');
+
+    expect(flatTreeToPaths(flatTree, 'id', 'name')).toStrictEqual(
+      treeToPaths(items, 'name', 'children'),
+    );
+    expect(flatTreeToPaths(flatTree, 'id', 'name', { leavesOnly: true })).toStrictEqual([
+      'Electronics/Phones/Android',
+      'Electronics/Laptops',
+      'Books',
+    ]);
+  });
+});
+
+describe('[pathsToTree]: parse paths into nested trees', () => {
+  it('should merge shared prefixes in first-seen order', () => {
+    const tree = pathsToTree([
+      'Electronics/Phones/Android',
+      ' Electronics / Laptops ',
+      '',
+      '/Books/',
+      'Electronics/Phones',
+    ]);
+
+    expect(toLabelTree(tree)).toStrictEqual([
+      [
+        'Electronics',
+        [
+          ['Phones', [['Android', []]]],
+          ['Laptops', []],
+        ],
+      ],
+      ['Books', []],
+    ]);
+  });
+
+  it('should preserve resolved ids and generate missing ones', () => {
+    const knownIds: Record<string, string> = {
+      Electronics: 'electronics',
+      'Electronics/Phones': 'phones',
+    };
+
+    const tree = pathsToTree(['Electronics/Phones/Android'], {
+      resolveNodeId: labels => knownIds[labels.join('/')],
+    });
+
+    expect(tree[0].id).toBe('electronics');
+    expect(tree[0].children[0].id).toBe('phones');
+    expect(tree[0].children[0].children[0].id).toEqual(expect.any(String));
+    expect(tree[0].children[0].children[0].id).not.toBe('phones');
+  });
+
+  it('should throw on duplicate resolved ids', () => {
+    expect(() => pathsToTree(['A/B'], { resolveNodeId: () => 'same' })).toThrow(
+      '[@react-hive/honey-utils]: Duplicate node id "same".',
+    );
+  });
+
+  it('should round-trip with treeToPaths', () => {
+    const paths = treeToPaths(items, 'name', 'children', { leavesOnly: true });
+
+    expect(
+      treeToPaths(pathsToTree(paths), 'label', 'children', { leavesOnly: true }),
+    ).toStrictEqual(paths);
+  });
+});
+
+describe('[pathsToFlatTree]: parse paths into flat trees', () => {
+  it('should return flat nodes with hierarchy metadata', () => {
+    const flatTree = pathsToFlatTree(['A|B', 'C'], { delimiter: '|' });
+
+    expect(
+      flatTree.map(({ label, parentId, depthLevel, childCount }) => ({
+        label,
+        hasParent: parentId !== undefined,
+        depthLevel,
+        childCount,
+      })),
+    ).toStrictEqual([
+      { label: 'A', hasParent: false, depthLevel: 0, childCount: 1 },
+      { label: 'B', hasParent: true, depthLevel: 1, childCount: 0 },
+      { label: 'C', hasParent: false, depthLevel: 0, childCount: 0 },
+    ]);
+    expect(flatTree[1].parentId).toBe(flatTree[0].id);
+  });
+});
+
+describe('[treeToOutline]: serialize trees to outlines', () => {
+  const outline = ['Electronics', '  Phones', '    Android', '  Laptops', 'Books'].join('\n');
+
+  it('should indent nodes by their depth level', () => {
+    expect(treeToOutline(items, 'name', 'children')).toBe(outline);
+  });
+
+  it('should support a custom indentation', () => {
+    expect(treeToOutline(items, 'name', 'children', { indent: '\t' })).toBe(
+      outline.replace(/ {2}/g, '\t'),
+    );
+  });
+
+  it('should produce the same outline for flat trees', () => {
+    expect(flatTreeToOutline(flattenTree(items, 'id', 'children'), 'name')).toBe(outline);
+  });
+});
+
+describe('[outlineToTree]: parse outlines into nested trees', () => {
+  it('should parse nesting from indentation and ignore blank lines', () => {
+    const tree = outlineToTree(`
+Electronics
+    Phones
+        Android
+
+    Laptops
+Books
+`);
+
+    expect(toLabelTree(tree)).toStrictEqual([
+      [
+        'Electronics',
+        [
+          ['Phones', [['Android', []]]],
+          ['Laptops', []],
+        ],
+      ],
+      ['Books', []],
+    ]);
+  });
+
+  it('should keep sibling nodes with the same label separate', () => {
+    expect(toLabelTree(outlineToTree('Misc\nMisc'))).toStrictEqual([
+      ['Misc', []],
+      ['Misc', []],
+    ]);
+  });
+
+  it('should round-trip with treeToOutline', () => {
+    const outline = treeToOutline(items, 'name', 'children', { indent: '\t' });
+
+    expect(treeToOutline(outlineToTree(outline), 'label', 'children', { indent: '\t' })).toBe(
+      outline,
+    );
+  });
+
+  it('should resolve ids by label path', () => {
+    const tree = outlineToTree('A\n  B', {
+      resolveNodeId: labels => labels.join('.'),
+    });
+
+    expect(tree).toStrictEqual([
+      { id: 'A', label: 'A', children: [{ id: 'A.B', label: 'B', children: [] }] },
+    ]);
+  });
+
+  it('should throw on inconsistent indentation', () => {
+    expect(() => outlineToTree('A\n    B\n  C')).toThrow(
+      '[@react-hive/honey-utils]: Inconsistent indentation at line 3.',
+    );
+    expect(() => outlineToTree('A\n  B\n\tC')).toThrow(
+      '[@react-hive/honey-utils]: Inconsistent indentation at line 3.',
+    );
+  });
+});
+
+describe('[outlineToFlatTree]: parse outlines into flat trees', () => {
+  it('should return flat nodes with depth levels', () => {
+    expect(outlineToFlatTree('A\n  B\n    C\nD').map(node => node.depthLevel)).toStrictEqual([
+      0, 1, 2, 0,
+    ]);
+  });
+});
@@ -0,0 +1,268 @@
+import { filterTree, findInTree, mapTree, reduceTree, walkTree } from '~/tree';
+
+type Item = {
+  id: number;
+  name: string;
+  children?: Item[] | null;
+};
+
+const items: Item[] = [
+  {
+    id: 1,
+    name: 'Fruits',
+    children: [
+      {
+        id: 2,
+        name: 'Apple',
+        children: [{ id: 4, name: 'Green Apple', children: [] }],
+      },
+      { id: 3, name: 'Pear' },
+    ],
+  },
+  {
+    id: 5,
+    name: 'Vegetables',
+    children: [{ id: 6, name: 'Carrot', children: null }],
+  },
+];
+
+describe('[walkTree]: traverse nested trees', () => {
+  const collectIds = (order?: 'pre-order' | 'post-order' | 'breadth-first') => {
+    const ids: number[] = [];
+
+    walkTree(items, 'children', item => void ids.push(item.id), { order });
+
+    return ids;
+  };
+
+  it('should visit nothing for undefined input', () => {
+    const visitor = vi.fn();
+
+    walkTree(undefined as Item[] | undefined, 'children', visitor);
+
+    expect(visitor).not.toHaveBeenCalled();
+  });
+
+  it('should visit nodes in pre-order by default', () => {
+    expect(collectIds()).toStrictEqual([1, 2, 4, 3, 5, 6]);
+  });
+
+  it('should visit nodes in post-order', () => {
+    expect(collectIds('post-order')).toStrictEqual([4, 2, 3, 1, 6, 5]);
+  });
+
+  it('should visit nodes in breadth-first order', () => {
+    expect(collectIds('breadth-first')).toStrictEqual([1, 5, 2, 3, 6, 4]);
+  });
+
+  it('should pass the ancestor path, depth level and sibling index', () => {
+    const contexts: [number, number[], number, number][] = [];
+
+    walkTree(items, 'children', (item, { path, depthLevel, index }) => {
+      contexts.push([item.id, path.map(ancestor => ancestor.id), depthLevel, index]);
+    });
+
+    expect(contexts).toStrictEqual([
+      [1, [], 0, 0],
+      [2, [1], 1, 0],
+      [4, [1, 2], 2, 0],
+      [3, [1], 1, 1],
+      [5, [], 0, 1],
+      [6, [5], 1, 0],
+    ]);
+  });
+
+  it.each(['pre-order', 'post-order', 'breadth-first'] as const)(
+    'should stop the %s traversal when the visitor returns false',
+    order => {
+      const visitor = vi.fn((item: Item) => item.id !== 2);
+
+      walkTree(items, 'children', visitor, { order });
+
+      expect(visitor).toHaveBeenLastCalledWith(
+        expect.objectContaining({ id: 2 }),
+        expect.anything(),
+      );
+      expect(visitor.mock.results.filter(result => result.value === false)).toHaveLength(1);
+    },
+  );
+
+  it('should handle deeply nested trees without overflowing the call stack', () => {
+    const root: Item = { id: 0, name: 'Node 0', children: [] };
+
+    let current = root;
+    for (let i = 1; i < 20_000; i++) {
+      const child: Item = { id: i, name: `Node ${i}`, children: [] };
+
+      current.children = [child];
+      current = child;
+    }
+
+    let maxDepthLevel = 0;
+    walkTree([root], 'children', (_item, { depthLevel }) => {
+      maxDepthLevel = Math.max(maxDepthLevel, depthLevel);
+    });
+
+    expect(maxDepthLevel).toBe(19_999);
+  });
+
+  it('should handle nodes with very large child lists', () => {
+    const root: Item = {
+      id: 0,
+      name: 'Root',
+      children: Array.from({ length: 200_000 }, (_, i) => ({ id: i + 1, name: `Node ${i}` })),
+    };
+
+    (['pre-order', 'post-order', 'breadth-first'] as const).forEach(order => {
+      let visitedCount = 0;
+      walkTree([root], 'children', () => void visitedCount++, { order });
+
+      expect(visitedCount).toBe(200_001);
+    });
+  });
+});
+
+describe('[findInTree]: find a node in nested trees', () => {
+  it('should return the first matching node', () => {
+    expect(findInTree(items, 'children', item => item.name.endsWith('Apple'))?.id).toBe(2);
+  });
+
+  it('should respect the traversal order', () => {
+    expect(
+      findInTree(items, 'children', item => item.name.endsWith('Apple'), { order: 'post-order' })
+        ?.id,
+    ).toBe(4);
+  });
+
+  it('should return null when no node matches', () => {
+    expect(findInTree(items, 'children', item => item.id === 100)).toBeNull();
+  });
+});
+
+describe('[reduceTree]: reduce nested trees', () => {
+  it('should accumulate values over all nodes', () => {
+    expect(reduceTree(items, 'children', (count, item) => count + item.id, 0)).toBe(21);
+  });
+
+  it('should pass the node context to the reducer', () => {
+    const maxDepthLevel = reduceTree(
+      items,
+      'children',
+      (result, _item, { depthLevel }) => Math.max(result, depthLevel),
+      0,
+    );
+
+    expect(maxDepthLevel).toBe(2);
+  });
+});
+
+describe('[mapTree]: map nested trees', () => {
+  it('should map nodes while keeping the hierarchy', () => {
+    const mappedItems = mapTree(items, 'children', (item, { depthLevel }) => ({
+      value: item.id,
+      label: `${'-'.repeat(depthLevel)}${item.name}`,
+    }));
+
+    expect(mappedItems).toStrictEqual([
+      {
+        value: 1,
+        label: 'Fruits',
+        children: [
+          {
+            value: 2,
+            label: '-Apple',
+            children: [{ value: 4, label: '--Green Apple', children: [] }],
+          },
+          { value: 3, label: '-Pear', children: [] },
+        ],
+      },
+      {
+        value: 5,
+        label: 'Vegetables',
+        children: [{ value: 6, label: '-Carrot', children: [] }],
+      },
+    ]);
+  });
+
+  it('should not mutate the original tree', () => {
+    const snapshot = structuredClone(items);
+
+    mapTree(items, 'children', item => ({ ...item, name: item.name.toUpperCase() }));
+
+    expect(items).toStrictEqual(snapshot);
+  });
+});
+
+describe('[filterTree]: filter nested trees', () => {
+  it('should keep matching nodes together with their ancestors', () => {
+    expect(filterTree(items, 'children', item => item.name === 'Green Apple')).toStrictEqual([
+      {
+        id: 1,
+        name: 'Fruits',
+        children: [
+          {
+            id: 2,
+            name: 'Apple',
+            children: [{ id: 4, name: 'Green Apple', children: [] }],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should drop non-matching descendants of matching nodes by default', () => {
+    expect(filterTree(items, 'children', item => item.id === 1)).toStrictEqual([
+      { id: 1, name: 'Fruits', children: [] },
+    ]);
+  });
+
+  it('should keep the whole subtree of matching nodes when keepDescendants is enabled', () => {
+    const filteredItems = filterTree(items, 'children', item => item.id === 2, {
+      keepDescendants: true,
+    });
+
+    expect(filteredItems).toStrictEqual([
+      {
+        id: 1,
+        name: 'Fruits',
+        children: [items[0].children?.[0]],
+      },
+    ]);
+    expect(filteredItems[0].children?.[0]).not.toBe(items[0].children?.[0]);
+    expect(filteredItems[0].children?.[0].children).toBe(items[0].children?.[0].children);
+  });
+
+  it('should call the predicate on children before their parent', () => {
+    const visitedIds: number[] = [];
+
+    filterTree(items, 'children', item => {
+      visitedIds.push(item.id);
+
+      return false;
+    });
+
+    expect(visitedIds.indexOf(4)).toBeLessThan(visitedIds.indexOf(2));
+    expect(visitedIds.indexOf(2)).toBeLessThan(visitedIds.indexOf(1));
+  });
+
+  it('should not add a children property to nodes that had none', () => {
+    expect(
+      filterTree(items, 'children', item => item.name === 'Pear' || item.name === 'Carrot'),
+    ).toStrictEqual([
+      { id: 1, name: 'Fruits', children: [{ id: 3, name: 'Pear' }] },
+      { id: 5, name: 'Vegetables', children: [{ id: 6, name: 'Carrot', children: null }] },
+    ]);
+  });
+
+  it('should return an empty array when no node matches', () => {
+    expect(filterTree(items, 'children', () => false)).toStrictEqual([]);
+  });
+
+  it('should not mutate the original tree', () => {
+    const snapshot = structuredClone(items);
+
+    filterTree(items, 'children', item => item.id === 6);
+
+    expect(items).toStrictEqual(snapshot);
+  });
+});
@@ -0,0 +1,178 @@
+import type { KeysWithNonArrayValues } from '~/types';
+import type { HoneyTreeNestedNode } from '~/tree';
+import { assert, isNil } from '~/guards';
+
+/**
+ * Strategy for nodes whose `parentId` does not match any node in the list.
+ *
+ * - `throw` — fail with a descriptive error
+ * - `root` — promote the node (with its subtree) to the root level
+ * - `drop` — omit the node together with its subtree
+ */
+export type BuildTreeOrphanStrategy = 'throw' | 'root' | 'drop';
+
+export interface BuildTreeOptions {
+  /**
+   * How to handle orphan nodes, i.e. nodes referencing a missing parent.
+   *
+   * @default 'throw'
+   */
+  orphanStrategy?: BuildTreeOrphanStrategy;
+  /**
+   * Whether to recompute `depthLevel` and `childCount` of every node from the built structure.
+   *
+   * Useful when the flat list was filtered or edited, or comes from an API without this metadata.
+   *
+   * @default false
+   */
+  recomputeMetadata?: boolean;
+}
+
+/**
+ * Reconstructs a nested tree from a flat list of nodes referencing their parent via `parentId`.
+ *
+ * This is the inverse of {@link flattenTree}. Nodes with a `null` or `undefined` `parentId` become
+ * root nodes, and each node receives its direct children under `childrenKey`. Sibling order follows
+ * the order of the flat list. The input nodes are not mutated.
+ *
+ * Invalid structures are reported with descriptive errors:
+ * - duplicate node ids
+ * - orphan nodes (unless `orphanStrategy` is `root` or `drop`)
+ * - cycles in the parent chain
+ *
+ * @template FlatNode - Shape of the flat node.
+ * @template ChildrenKey - Key under which nested child nodes are stored.
+ *
+ * @param flatTree - Flat list of nodes, e.g. produced by `flattenTree` or returned by an API.
+ * @param nodeIdKey - Key that uniquely identifies each node.
+ * @param childrenKey - Key under which nested child nodes are stored.
+ * @param options - Options controlling orphan handling and metadata recomputation.
+ *
+ * @returns Root-level nodes of the reconstructed tree.
+ *
+ * @example
+ * ```ts
+ * const rows = [
+ *   { id: 1, name: 'Root', parentId: null },
+ *   { id: 2, name: 'Child', parentId: 1 },
+ * ];
+ *
+ * const tree = buildTree(rows, 'id', 'children');
+ *
+ * // [
+ * //   {
+ * //     id: 1,
+ * //     name: 'Root',
+ * //     parentId: null,
+ * //     children: [{ id: 2, name: 'Child', parentId: 1, children: [] }],
+ * //   },
+ * // ]
+ * ```
+ */
+export const buildTree = <FlatNode extends { parentId?: unknown }, ChildrenKey extends string>(
+  flatTree: FlatNode[],
+  nodeIdKey: KeysWithNonArrayValues<FlatNode>,
+  childrenKey: ChildrenKey,
+  { orphanStrategy = 'throw', recomputeMetadata = false }: BuildTreeOptions = {},
+): HoneyTreeNestedNode<FlatNode, ChildrenKey>[] => {
+  type NestedNode = HoneyTreeNestedNode<FlatNode, ChildrenKey>;
+
+  const nodeById = new Map<unknown, NestedNode>();
+
+  flatTree.forEach(flatNode => {
+    const nodeId = flatNode[nodeIdKey];
+
+    assert(
+      !nodeById.has(nodeId),
+      `[@react-hive/honey-utils]: Duplicate node id "${String(nodeId)}".`,
+    );
+
+    nodeById.set(nodeId, { ...flatNode, [childrenKey]: [] } as NestedNode);
+  });
+
+  const rootNodes: NestedNode[] = [];
+  const droppedNodes: NestedNode[] = [];
+
+  flatTree.forEach(flatNode => {
+    const nodeId = flatNode[nodeIdKey];
+    const node = nodeById.get(nodeId) as NestedNode;
+
+    if (isNil(flatNode.parentId)) {
+      rootNodes.push(node);
+      return;
+    }
+
+    const parentNode = nodeById.get(flatNode.parentId);
+    if (parentNode) {
+      parentNode[childrenKey].push(node);
+      return;
+    }
+
+    assert(
+      orphanStrategy !== 'throw',
+      `[@react-hive/honey-utils]: Parent node "${String(flatNode.parentId)}" of node "${String(nodeId)}" was not found.`,
+    );
+
+    if (orphanStrategy === 'root') {
+      rootNodes.push(node);
+    } else {
+      droppedNodes.push(node);
+    }
+  });
+
+  const visitedNodes = new Set<NestedNode>();
+  const pendingNodes = rootNodes.map(node => ({ node, depthLevel: 0 }));
+
+  while (pendingNodes.length) {
+    const { node, depthLevel } = pendingNodes.pop() as (typeof pendingNodes)[number];
+    const children = node[childrenKey];
+
+    visitedNodes.add(node);
+
+    if (recomputeMetadata) {
+      Object.assign(node, { depthLevel, childCount: children.length });
+    }
+
+    children.forEach(child => pendingNodes.push({ node: child, depthLevel: depthLevel + 1 }));
+  }
+
+  // Whole subtrees of dropped orphans are visited once, so they are not walked again below
+  while (droppedNodes.length) {
+    const node = droppedNodes.pop() as NestedNode;
+
+    visitedNodes.add(node);
+    node[childrenKey].forEach(child => droppedNodes.push(child));
+  }
+
+  if (visitedNodes.size < flatTree.length) {
+    // A node not reached from a root or a dropped orphan belongs to a cycle or descends from one,
+    // so following its parent chain always runs into the cycle
+    let currentId: unknown;
+
+    for (const [nodeId, node] of nodeById) {
+      if (!visitedNodes.has(node)) {
+        currentId = nodeId;
+        break;
+      }
+    }
+
+    const ancestorIds: unknown[] = [];
+    const ancestorIndexById = new Map<unknown, number>();
+
+    while (!ancestorIndexById.has(currentId)) {
+      ancestorIndexById.set(currentId, ancestorIds.length);
+      ancestorIds.push(currentId);
+
+      currentId = nodeById.get(currentId)?.parentId;
+    }
+
+    const cycleIds = [...ancestorIds.slice(ancestorIndexById.get(currentId)), currentId];
+
+    assert(
+      false,
+      `[@react-hive/honey-utils]: Cycle detected in parent chain: ${cycleIds.map(String).join(' → ')}.`,
+    );
+  }
+
+  return rootNodes;
+};
@@ -0,0 +1,300 @@
+import type { KeysWithArrayValues, KeysWithNonArrayValues } from '~/types';
+import type { HoneyTreeFlatNode } from '~/tree';
+import { assert, isNil } from '~/guards';
+import { flattenTree } from '~/tree';
+
+export interface HoneyTreeFieldChange {
+  /**
+   * Name of the changed field.
+   */
+  key: string;
+  /**
+   * Field value in the previous snapshot, `undefined` if the field was added.
+   */
+  previousValue: unknown;
+  /**
+   * Field value in the next snapshot, `undefined` if the field was removed.
+   */
+  nextValue: unknown;
+}
+
+export interface HoneyTreeNodeMove<Node, NodeId> {
+  /**
+   * The node as it appears in the next snapshot.
+   */
+  node: Node;
+  previousParentId: NodeId | undefined;
+  nextParentId: NodeId | undefined;
+  /**
+   * Index among the siblings in the previous snapshot.
+   */
+  previousIndex: number;
+  /**
+   * Index among the siblings in the next snapshot.
+   */
+  nextIndex: number;
+}
+
+export interface HoneyTreeNodeUpdate<Node> {
+  previousNode: Node;
+  nextNode: Node;
+  /**
+   * Changed data fields. Hierarchy metadata changes are reported as moves instead.
+   */
+  changes: HoneyTreeFieldChange[];
+}
+
+export interface HoneyTreeDiff<Node, NodeId> {
+  /**
+   * Nodes present only in the next snapshot, in preorder.
+   */
+  added: Node[];
+  /**
+   * Nodes present only in the previous snapshot, in preorder. Includes all nodes of removed subtrees.
+   */
+  removed: Node[];
+  /**
+   * Nodes whose parent changed, or whose position changed relative to their remaining siblings.
+   */
+  moved: HoneyTreeNodeMove<Node, NodeId>[];
+  /**
+   * Nodes with changed data fields.
+   */
+  updated: HoneyTreeNodeUpdate<Node>[];
+}
+
+export interface DiffTreeOptions {
+  /**
+   * Function used to compare field values of nodes present in both snapshots.
+   *
+   * @default Object.is
+   */
+  isEqual?: (previousValue: unknown, nextValue: unknown, key: string) => boolean;
+}
+
+/**
+ * Hierarchy metadata fields, which are compared through moves rather than field changes.
+ */
+const TREE_METADATA_KEYS = new Set(['parentId', 'depthLevel', 'childCount']);
+
+/**
+ * Returns the positions of a longest strictly increasing subsequence of the given numbers.
+ */
+const getLongestIncreasingSubsequence = (values: number[]): Set<number> => {
+  // Positions of the smallest tail value for every subsequence length
+  const tailPositions: number[] = [];
+  const previousPositions: number[] = [];
+
+  values.forEach((value, position) => {
+    let low = 0;
+    let high = tailPositions.length;
+
+    while (low < high) {
+      const middle = (low + high) >> 1;
+
+      if (values[tailPositions[middle]] < value) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    previousPositions[position] = low > 0 ? tailPositions[low - 1] : -1;
+    tailPositions[low] = position;
+  });
+
+  const positions = new Set<number>();
+
+  let position = tailPositions.length ? tailPositions[tailPositions.length - 1] : -1;
+  while (position !== -1) {
+    positions.add(position);
+    position = previousPositions[position];
+  }
+
+  return positions;
+};
+
+/**
+ * Compares two snapshots of a flattened tree and reports the changes between them.
+ *
+ * Nodes are matched by `nodeIdKey`. A node is reported as moved when its parent changed,
+ * or when its order changed relative to the siblings it had in both snapshots. Inserting or
+ * removing a sibling does not mark the following siblings as moved, so the result can be
+ * translated into a minimal list of API patches or undo steps.
+ *
+ * @template OriginItem - Original node shape of the hierarchical structure.
+ * @template ChildrenKey - Key of the removed nested children property.
+ *
+ * @param previousFlatTree - Flat preorder list of the previous snapshot.
+ * @param nextFlatTree - Flat preorder list of the next snapshot.
+ * @param nodeIdKey - Key that uniquely identifies each node.
+ * @param options - Options controlling how field values are compared.
+ *
+ * @returns Added, removed, moved and updated nodes.
+ *
+ * @example
+ * ```ts
+ * const { added, removed, moved, updated } = diffFlatTrees(savedFlatTree, flatTree, 'id');
+ *
+ * await saveCategories({
+ *   create: added,
+ *   delete: removed.map(node => node.id),
+ *   move: moved.map(({ node, nextParentId, nextIndex }) => ({ id: node.id, nextParentId, nextIndex })),
+ *   update: updated.map(({ nextNode, changes }) => ({ id: nextNode.id, changes })),
+ * });
+ * ```
+ */
+export const diffFlatTrees = <OriginItem extends object, ChildrenKey extends string>(
+  previousFlatTree: HoneyTreeFlatNode<OriginItem, ChildrenKey>[],
+  nextFlatTree: HoneyTreeFlatNode<OriginItem, ChildrenKey>[],
+  nodeIdKey: KeysWithNonArrayValues<OriginItem>,
+  { isEqual = Object.is }: DiffTreeOptions = {},
+): HoneyTreeDiff<
+  HoneyTreeFlatNode<OriginItem, ChildrenKey>,
+  OriginItem[KeysWithNonArrayValues<OriginItem>]
+> => {
+  type NodeId = OriginItem[KeysWithNonArrayValues<OriginItem>];
+  type Node = HoneyTreeFlatNode<OriginItem, ChildrenKey>;
+
+  interface IndexedNode {
+    node: Node;
+    parentId: NodeId | undefined;
+    index: number;
+  }
+
+  const indexFlatTree = (flatTree: Node[]) => {
+    const indexedNodeById = new Map<NodeId, IndexedNode>();
+    const childIdsByParentId = new Map<NodeId | undefined, NodeId[]>();
+
+    flatTree.forEach(node => {
+      const nodeId = node[nodeIdKey as never] as NodeId;
+      assert(
+        !indexedNodeById.has(nodeId),
+        `[@react-hive/honey-utils]: Duplicate node id "${String(nodeId)}".`,
+      );
+
+      const parentId = isNil(node.parentId) ? undefined : node.parentId;
+
+      const siblingIds = childIdsByParentId.get(parentId) ?? [];
+      childIdsByParentId.set(parentId, siblingIds);
+
+      indexedNodeById.set(nodeId, { node, parentId, index: siblingIds.length });
+      siblingIds.push(nodeId);
+    });
+
+    return { indexedNodeById, childIdsByParentId };
+  };
+
+  const previousIndex = indexFlatTree(previousFlatTree);
+  const nextIndex = indexFlatTree(nextFlatTree);
+
+  const diff: HoneyTreeDiff<Node, NodeId> = {
+    added: [],
+    removed: [],
+    moved: [],
+    updated: [],
+  };
+
+  previousIndex.indexedNodeById.forEach(({ node }, nodeId) => {
+    if (!nextIndex.indexedNodeById.has(nodeId)) {
+      diff.removed.push(node);
+    }
+  });
+
+  // Nodes that kept their parent but changed their order relative to the other kept siblings
+  const reorderedIds = new Set<NodeId>();
+
+  nextIndex.childIdsByParentId.forEach((childIds, parentId) => {
+    const keptChildren = childIds.flatMap(childId => {
+      const previous = previousIndex.indexedNodeById.get(childId);
+
+      return previous && previous.parentId === parentId
+        ? [{ childId, previousIndex: previous.index }]
+        : [];
+    });
+
+    const keptPositions = getLongestIncreasingSubsequence(
+      keptChildren.map(keptChild => keptChild.previousIndex),
+    );
+
+    keptChildren.forEach(({ childId }, position) => {
+      if (!keptPositions.has(position)) {
+        reorderedIds.add(childId);
+      }
+    });
+  });
+
+  nextIndex.indexedNodeById.forEach((next, nodeId) => {
+    const previous = previousIndex.indexedNodeById.get(nodeId);
+    if (!previous) {
+      diff.added.push(next.node);
+      return;
+    }
+
+    if (previous.parentId !== next.parentId || reorderedIds.has(nodeId)) {
+      diff.moved.push({
+        node: next.node,
+        previousParentId: previous.parentId,
+        nextParentId: next.parentId,
+        previousIndex: previous.index,
+        nextIndex: next.index,
+      });
+    }
+
+    const keys = new Set([...Object.keys(previous.node), ...Object.keys(next.node)]);
+    const changes: HoneyTreeFieldChange[] = [];
+
+    keys.forEach(key => {
+      if (TREE_METADATA_KEYS.has(key)) {
+        return;
+      }
+
+      const previousValue = previous.node[key as never];
+      const nextValue = next.node[key as never];
+
+      if (!isEqual(previousValue, nextValue, key)) {
+        changes.push({ key, previousValue, nextValue });
+      }
+    });
+
+    if (changes.length) {
+      diff.updated.push({ previousNode: previous.node, nextNode: next.node, changes });
+    }
+  });
+
+  return diff;
+};
+
+/**
+ * Compares two snapshots of a nested tree and reports the changes between them.
+ *
+ * Both snapshots are flattened and compared with {@link diffFlatTrees}, so the reported nodes
+ * are flat nodes without the `childrenKey` property. Changes of child lists are reported as
+ * added, removed or moved child nodes rather than as field changes.
+ *
+ * @template OriginItem - Original node shape of the hierarchical structure.
+ *
+ * @param previousItems - Root-level nodes of the previous snapshot.
+ * @param nextItems - Root-level nodes of the next snapshot.
+ * @param nodeIdKey - Key that uniquely identifies each node.
+ * @param childrenKey - Key containing the nested child node array.
+ * @param options - Options controlling how field values are compared.
+ *
+ * @returns Added, removed, moved and updated nodes.
+ */
+export const diffTrees = <OriginItem extends object>(
+  previousItems: OriginItem[] | undefined,
+  nextItems: OriginItem[] | undefined,
+  nodeIdKey: KeysWithNonArrayValues<OriginItem>,
+  childrenKey: KeysWithArrayValues<OriginItem>,
+  options?: DiffTreeOptions,
+): HoneyTreeDiff<
+  HoneyTreeFlatNode<OriginItem, KeysWithArrayValues<OriginItem>>,
+  OriginItem[KeysWithNonArrayValues<OriginItem>]
+> =>
+  diffFlatTrees(
+    flattenTree(previousItems, nodeIdKey, childrenKey),
+    flattenTree(nextItems, nodeIdKey, childrenKey),
+    nodeIdKey,
+    options,
+  );
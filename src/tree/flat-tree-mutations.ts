@@ -0,0 +1,151 @@
+import type { KeysWithNonArrayValues } from '~/types';
+import type { HoneyTreeFlatNode, RemoveTreeNodeOptions } from '~/tree';
+import { assert } from '~/guards';
+import { createTreeIndex } from '~/tree';
+
+/**
+ * Immutably inserts a node into a flattened tree.
+ *
+ * @template OriginItem - Original node shape of the hierarchical structure.
+ * @template ChildrenKey - Key of the removed nested children property.
+ *
+ * @param flatTree - Flat preorder list of tree nodes containing hierarchy metadata.
+ * @param nodeIdKey - Key that uniquely identifies each node.
+ * @param nodeData - Node data without hierarchy metadata.
+ * @param parentId - Identifier of the parent node, or `undefined` to insert a root node.
+ * @param index - Position among the new siblings. Defaults to the end.
+ *
+ * @returns A new flat preorder list with correct `parentId`, `depthLevel` and `childCount`.
+ *
+ * @example
+ * ```ts
+ * const nextFlatTree = insertFlatTreeNode(flatTree, 'id', { id: 10, name: 'New' }, 1, 0);
+ * ```
+ */
+export const insertFlatTreeNode = <OriginItem extends object, ChildrenKey extends string>(
+  flatTree: HoneyTreeFlatNode<OriginItem, ChildrenKey>[],
+  nodeIdKey: KeysWithNonArrayValues<OriginItem>,
+  nodeData: Omit<OriginItem, ChildrenKey>,
+  parentId?: OriginItem[KeysWithNonArrayValues<OriginItem>],
+  index?: number,
+): HoneyTreeFlatNode<OriginItem, ChildrenKey>[] => {
+  const treeIndex = createTreeIndex(flatTree, nodeIdKey);
+  treeIndex.insert(nodeData, parentId, index);
+
+  return treeIndex.toFlatTree();
+};
+
+/**
+ * Immutably removes a node from a flattened tree.
+ *
+ * By default the whole subtree is removed. With `keepChildren`, the children of the removed
+ * node take its place among its siblings, and their subtrees move one level up.
+ *
+ * @template OriginItem - Original node shape of the hierarchical structure.
+ * @template ChildrenKey - Key of the removed nested children property.
+ *
+ * @param flatTree - Flat preorder list of tree nodes containing hierarchy metadata.
+ * @param nodeIdKey - Key that uniquely identifies each node.
+ * @param nodeId - Identifier of the node to remove.
+ * @param options - Options controlling whether children are kept.
+ *
+ * @returns A new flat preorder list with correct `parentId`, `depthLevel` and `childCount`.
+ */
+export const removeFlatTreeNode = <OriginItem extends object, ChildrenKey extends string>(
+  flatTree: HoneyTreeFlatNode<OriginItem, ChildrenKey>[],
+  nodeIdKey: KeysWithNonArrayValues<OriginItem>,
+  nodeId: OriginItem[KeysWithNonArrayValues<OriginItem>],
+  { keepChildren = false }: RemoveTreeNodeOptions = {},
+): HoneyTreeFlatNode<OriginItem, ChildrenKey>[] => {
+  const treeIndex = createTreeIndex(flatTree, nodeIdKey);
+
+  if (keepChildren) {
+    const parentId = treeIndex.getParent(nodeId)?.[nodeIdKey as never];
+    const nodeIndex = treeIndex
+      .getChildren(parentId)
+      .findIndex(sibling => sibling[nodeIdKey as never] === nodeId);
+
+    treeIndex.getChildren(nodeId).forEach((child, childIndex) => {
+      treeIndex.move(child[nodeIdKey as never], parentId, nodeIndex + childIndex);
+    });
+  }
+
+  treeIndex.remove(nodeId);
+
+  return treeIndex.toFlatTree();
+};
+
+/**
+ * Immutably moves a node together with its subtree under a new parent in a flattened tree.
+ *
+ * Refuses to move a node into itself or into one of its descendants.
+ *
+ * @template OriginItem - Original node shape of the hierarchical structure.
+ * @template ChildrenKey - Key of the removed nested children property.
+ *
+ * @param flatTree - Flat preorder list of tree nodes containing hierarchy metadata.
+ * @param nodeIdKey - Key that uniquely identifies each node.
+ * @param nodeId - Identifier of the node to move.
+ * @param parentId - Identifier of the new parent node, or `undefined` to move to the root level.
+ * @param index - Position among the new siblings, after the node is detached. Defaults to the end.
+ *
+ * @returns A new flat preorder list with correct `parentId`, `depthLevel` and `childCount`.
+ */
+export const moveFlatTreeNode = <OriginItem extends object, ChildrenKey extends string>(
+  flatTree: HoneyTreeFlatNode<OriginItem, ChildrenKey>[],
+  nodeIdKey: KeysWithNonArrayValues<OriginItem>,
+  nodeId: OriginItem[KeysWithNonArrayValues<OriginItem>],
+  parentId: OriginItem[KeysWithNonArrayValues<OriginItem>] | undefined,
+  index?: number,
+): HoneyTreeFlatNode<OriginItem, ChildrenKey>[] => {
+  const treeIndex = createTreeIndex(flatTree, nodeIdKey);
+  treeIndex.move(nodeId, parentId, index);
+
+  return treeIndex.toFlatTree();
+};
+
+/**
+ * Immutably updates the data of a node in a flattened tree.
+ *
+ * Hierarchy metadata and the node id cannot be changed this way, use {@link moveFlatTreeNode}
+ * to change the position of a node.
+ *
+ * @template OriginItem - Original node shape of the hierarchical structure.
+ * @template ChildrenKey - Key of the removed nested children property.
+ *
+ * @param flatTree - Flat preorder list of tree nodes containing hierarchy metadata.
+ * @param nodeIdKey - Key that uniquely identifies each node.
+ * @param nodeId - Identifier of the node to update.
+ * @param update - Function returning the data fields to change.
+ *
+ * @returns A new flat list with the updated node.
+ */
+export const updateFlatTreeNode = <OriginItem extends object, ChildrenKey extends string>(
+  flatTree: HoneyTreeFlatNode<OriginItem, ChildrenKey>[],
+  nodeIdKey: KeysWithNonArrayValues<OriginItem>,
+  nodeId: OriginItem[KeysWithNonArrayValues<OriginItem>],
+  update: (
+    node: HoneyTreeFlatNode<OriginItem, ChildrenKey>,
+  ) => Partial<Omit<OriginItem, ChildrenKey>>,
+): HoneyTreeFlatNode<OriginItem, ChildrenKey>[] => {
+  const nodeIndex = flatTree.findIndex(node => node[nodeIdKey as never] === nodeId);
+  assert(nodeIndex !== -1, `[@react-hive/honey-utils]: Node "${String(nodeId)}" was not found.`);
+
+  const node = flatTree[nodeIndex];
+  const { parentId, depthLevel, childCount } = node;
+
+  const updatedNode: HoneyTreeFlatNode<OriginItem, ChildrenKey> = {
+    ...node,
+    ...update(node),
+    parentId,
+    depthLevel,
+    childCount,
+  };
+
+  assert(
+    updatedNode[nodeIdKey as never] === nodeId,
+    `[@react-hive/honey-utils]: The id of node "${String(nodeId)}" cannot be changed.`,
+  );
+
+  return [...flatTree.slice(0, nodeIndex), updatedNode, ...flatTree.slice(nodeIndex + 1)];
+};
@@ -1,5 +1,37 @@
 import type { KeysWithArrayValues, KeysWithNonArrayValues } from '~/types';
-import type { HoneyTreeFlatNode } from '~/tree';
+import type { HoneyTreeFlatNode, HoneyTreeFlatNodeLayout } from '~/tree';
+
+export interface FlattenTreeOptions<OriginItem extends object> {
+  /**
+   * Compare function used to sort the siblings of every level, as in `Array.prototype.sort()`.
+   * The original arrays are not mutated.
+   *
+   * @default undefined
+   */
+  sortSiblings?: (a: OriginItem, b: OriginItem) => number;
+  /**
+   * Maximum depth level to include. Deeper nodes are omitted, and nodes at the limit
+   * are flattened as leaf nodes.
+   *
+   * @default Infinity
+   */
+  maxDepthLevel?: number;
+}
+
+export interface FlattenTreeProjectionOptions<
+  OriginItem extends object,
+  Node extends object,
+> extends FlattenTreeOptions<OriginItem> {
+  /**
+   * Function producing the output node from the flat node, its layout and the original item.
+   * Use it to pick only the needed fields or to attach layout fields such as `hasNextSibling`.
+   */
+  projectNode: (
+    node: HoneyTreeFlatNode<OriginItem, KeysWithArrayValues<OriginItem>>,
+    layout: HoneyTreeFlatNodeLayout<OriginItem[KeysWithNonArrayValues<OriginItem>]>,
+    item: OriginItem,
+  ) => Node;
+}
 
 /**
  * Flattens a hierarchical tree into a single preorder array.
@@ -15,15 +47,15 @@ import type { HoneyTreeFlatNode } from '~/tree';
  * their descendants. This representation is especially useful for rendering
  * tree-based UIs such as TreeSelect components, nested menus, and folder pickers.
  *
+ * The traversal is iterative, so arbitrarily deep trees do not overflow the call stack.
+ *
  * @template OriginItem - Original node shape of the hierarchical structure.
+ * @template Node - Shape of the output nodes, only available through `projectNode`.
  *
  * @param items - Root-level nodes to flatten. If undefined, an empty array is returned.
  * @param nodeIdKey - Key that uniquely identifies each node.
  * @param childrenKey - Key containing the nested child node array.
- *
- * @param flatTree - Internal accumulator used during recursion.
- * @param parentId - Parent identifier for the current recursion level.
- * @param depthLevel - Current depth level, where `0` represents the root.
+ * @param options - Options for sorting siblings, limiting depth and projecting nodes.
  *
  * @returns A flat preorder list of tree nodes with hierarchy metadata attached,
  *          excluding the original children property.
@@ -45,35 +77,116 @@ import type { HoneyTreeFlatNode } from '~/tree';
  * //   { id: 2, name: 'Child', parentId: 1, depthLevel: 1, childCount: 0 }
  * // ]
  * ```
+ *
+ * @example
+ * ```ts
+ * const rows = flattenTree(tree, 'id', 'children', {
+ *   sortSiblings: (a, b) => a.name.localeCompare(b.name),
+ *   projectNode: ({ id, name, depthLevel }, { isLeaf, hasNextSibling }) => ({
+ *     id,
+ *     name,
+ *     depthLevel,
+ *     isLeaf,
+ *     hasNextSibling,
+ *   }),
+ * });
+ * ```
  */
-export const flattenTree = <OriginItem extends object>(
+export function flattenTree<OriginItem extends object>(
+  items: OriginItem[] | undefined,
+  nodeIdKey: KeysWithNonArrayValues<OriginItem>,
+  childrenKey: KeysWithArrayValues<OriginItem>,
+  options?: FlattenTreeOptions<OriginItem> & { projectNode?: never },
+): HoneyTreeFlatNode<OriginItem, KeysWithArrayValues<OriginItem>>[];
+
+export function flattenTree<OriginItem extends object, Node extends object>(
+  items: OriginItem[] | undefined,
+  nodeIdKey: KeysWithNonArrayValues<OriginItem>,
+  childrenKey: KeysWithArrayValues<OriginItem>,
+  options: FlattenTreeProjectionOptions<OriginItem, Node>,
+): Node[];
+
+export function flattenTree<OriginItem extends object, Node extends object>(
   items: OriginItem[] | undefined,
   nodeIdKey: KeysWithNonArrayValues<OriginItem>,
   childrenKey: KeysWithArrayValues<OriginItem>,
-  ///
-  flatTree: HoneyTreeFlatNode<OriginItem, typeof childrenKey>[] = [],
-  parentId: OriginItem[KeysWithNonArrayValues<OriginItem>] | undefined = undefined,
-  depthLevel = 0,
-): HoneyTreeFlatNode<OriginItem, typeof childrenKey>[] => {
-  items?.forEach(item => {
-    const { [childrenKey]: _, ...nodeData } = item;
-
-    const children = item[childrenKey];
-    const hasChildrenArray = Array.isArray(children);
-
-    flatTree.push({
+  {
+    sortSiblings,
+    maxDepthLevel = Infinity,
+    projectNode,
+  }: Partial<FlattenTreeProjectionOptions<OriginItem, Node>> = {},
+): (HoneyTreeFlatNode<OriginItem, KeysWithArrayValues<OriginItem>> | Node)[] {
+  type NodeId = OriginItem[KeysWithNonArrayValues<OriginItem>];
+
+  interface FlattenTreeEntry {
+    item: OriginItem;
+    parentId: NodeId | undefined;
+    parentPath: NodeId[];
+    depthLevel: number;
+    index: number;
+    hasNextSibling: boolean;
+  }
+
+  const getSiblings = (siblings: unknown, depthLevel: number) => {
+    if (!Array.isArray(siblings) || depthLevel > maxDepthLevel) {
+      return [];
+    }
+
+    return sortSiblings ? [...siblings].sort(sortSiblings) : (siblings as OriginItem[]);
+  };
+
+  const stack: FlattenTreeEntry[] = [];
+
+  const pushSiblings = (
+    siblings: OriginItem[],
+    parentId: NodeId | undefined,
+    parentPath: NodeId[],
+    depthLevel: number,
+  ) => {
+    // Pushed in reverse, so the first sibling is processed first
+    for (let index = siblings.length - 1; index >= 0; index--) {
+      stack.push({
+        item: siblings[index],
+        parentId,
+        parentPath,
+        depthLevel,
+        index,
+        hasNextSibling: index < siblings.length - 1,
+      });
+    }
+  };
+
+  pushSiblings(getSiblings(items, 0), undefined, [], 0);
+
+  const flatTree: (HoneyTreeFlatNode<OriginItem, KeysWithArrayValues<OriginItem>> | Node)[] = [];
+
+  while (stack.length) {
+    const { item, parentId, parentPath, depthLevel, index, hasNextSibling } =
+      stack.pop() as FlattenTreeEntry;
+
+    const { [childrenKey]: children, ...nodeData } = item;
+
+    const childItems = getSiblings(children, depthLevel + 1);
+
+    const node: HoneyTreeFlatNode<OriginItem, KeysWithArrayValues<OriginItem>> = {
       ...nodeData,
       parentId,
       depthLevel,
-      childCount: hasChildrenArray ? children.length : 0,
-    });
+      childCount: childItems.length,
+    };
 
-    if (hasChildrenArray) {
-      const parentId = item[nodeIdKey];
+    const nodeId = item[nodeIdKey];
+    // The path is only needed for projections, so plain flattening stays linear for deep trees
+    const path = projectNode ? [...parentPath, nodeId] : parentPath;
 
-      flattenTree(children, nodeIdKey, childrenKey, flatTree, parentId, depthLevel + 1);
-    }
-  });
+    flatTree.push(
+      projectNode
+        ? projectNode(node, { index, path, isLeaf: !childItems.length, hasNextSibling }, item)
+        : node,
+    );
+
+    pushSiblings(childItems, nodeId, path, depthLevel + 1);
+  }
 
   return flatTree;
-};
+}
@@ -1,4 +1,14 @@
 export * from './tree.types';
 export * from './flatten-tree';
+export * from './build-tree';
 export * from './get-tree-children';
+export * from './tree-index';
+export * from './tree-mutations';
+export * from './flat-tree-mutations';
+export * from './tree-expansion';
+export * from './tree-selection';
+export * from './diff-tree';
+export * from './lazy-tree';
 export * from './search-tree';
+export * from './tree-traversal';
+export * from './tree-serialization';
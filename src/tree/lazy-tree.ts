@@ -0,0 +1,278 @@
+import type { KeysWithNonArrayValues } from '~/types';
+import type { RetryOptions } from '~/async';
+import type { HoneyTreeFlatNode } from '~/tree';
+import { assert, isUndefined } from '~/guards';
+import { retry, throwIfAborted } from '~/async';
+import { createTreeIndex } from '~/tree';
+
+/**
+ * Loading status of the children of a lazy tree node:
+ *
+ * - `idle` — children were not requested yet, or were invalidated
+ * - `loading` — children are being fetched
+ * - `loaded` — children are merged into the tree
+ * - `error` — the last fetch failed after all retry attempts
+ */
+export type LazyTreeNodeStatus = 'idle' | 'loading' | 'loaded' | 'error';
+
+export interface LazyTreeNodeState {
+  status: LazyTreeNodeStatus;
+  /**
+   * Error of the last failed fetch. `undefined` unless the status is `error`.
+   */
+  error: unknown;
+}
+
+export interface LazyTreeLoaderContext {
+  /**
+   * Signal aborted when the request is no longer needed, e.g. after the node was invalidated.
+   */
+  signal: AbortSignal;
+}
+
+/**
+ * Fetches the direct children of a node.
+ *
+ * @param parentId - Identifier of the parent node, or `undefined` for the root nodes.
+ * @param context - Context of the request, including its abort signal.
+ *
+ * @returns Node data of the children in sibling order.
+ */
+export type LazyTreeChildrenLoader<OriginItem extends object> = (
+  parentId: OriginItem[KeysWithNonArrayValues<OriginItem>] | undefined,
+  context: LazyTreeLoaderContext,
+) => Promise<OriginItem[]>;
+
+export interface LazyTreeOptions {
+  /**
+   * Retry behavior of failed fetches, using the `retry` defaults when omitted.
+   * The abort signal is managed by the lazy tree.
+   *
+   * @default {}
+   */
+  retryOptions?: Omit<RetryOptions, 'signal'>;
+  /**
+   * Optional callback triggered whenever the flat node list or a node state changes.
+   */
+  onChange?: () => void;
+}
+
+export interface HoneyLazyTree<OriginItem extends object> {
+  /**
+   * Returns all loaded nodes as a flat preorder list.
+   */
+  getFlatTree: () => HoneyTreeFlatNode<OriginItem, never>[];
+  /**
+   * Returns the loaded node with the given id, or `undefined` if it is not loaded.
+   */
+  getNode: (
+    nodeId: OriginItem[KeysWithNonArrayValues<OriginItem>],
+  ) => HoneyTreeFlatNode<OriginItem, never> | undefined;
+  /**
+   * Returns the loading state of the children of the given node.
+   * Pass `undefined` to get the state of the root nodes.
+   */
+  getNodeState: (
+    nodeId: OriginItem[KeysWithNonArrayValues<OriginItem>] | undefined,
+  ) => LazyTreeNodeState;
+  /**
+   * Loads the children of the given node, or the root nodes when `undefined` is passed.
+   *
+   * Concurrent calls for the same node share a single request, and already loaded children
+   * are returned without fetching them again. Failed fetches can be retried by calling it again.
+   *
+   * @returns The loaded children in sibling order.
+   */
+  loadChildren: (
+    nodeId: OriginItem[KeysWithNonArrayValues<OriginItem>] | undefined,
+  ) => Promise<HoneyTreeFlatNode<OriginItem, never>[]>;
+  /**
+   * Removes all descendants of the given node, aborts their pending fetches and resets their
+   * state to `idle`. Pass `undefined` to reset the whole tree.
+   *
+   * Pending `loadChildren()` calls of the invalidated nodes reject with an `AbortError`.
+   */
+  invalidate: (nodeId: OriginItem[KeysWithNonArrayValues<OriginItem>] | undefined) => void;
+  /**
+   * Invalidates the given node and loads its children again.
+   */
+  reload: (
+    nodeId: OriginItem[KeysWithNonArrayValues<OriginItem>] | undefined,
+  ) => Promise<HoneyTreeFlatNode<OriginItem, never>[]>;
+}
+
+/**
+ * Creates a controller for trees whose children are loaded on demand, e.g. file browsers
+ * or category pickers backed by a paginated API.
+ *
+ * Loaded children are merged into a flat preorder node list with correct `parentId`,
+ * `depthLevel` and `childCount`, so the result can be used with the other flat tree utilities
+ * such as `getVisibleTreeNodes`. Until its children are loaded, a node has a `childCount`
+ * of `0`, so the node data should carry its own "has children" flag when needed.
+ *
+ * @template OriginItem - Node data returned by the loader.
+ *
+ * @param nodeIdKey - Key that uniquely identifies each node.
+ * @param loadChildren - Function fetching the direct children of a node.
+ * @param options - Retry behavior and change notifications.
+ *
+ * @returns A lazy tree controller.
+ *
+ * @example
+ * ```ts
+ * const lazyTree = createLazyTree(
+ *   'path',
+ *   (parentPath, { signal }) => fetchDirectoryEntries(parentPath ?? '/', { signal }),
+ *   {
+ *     retryOptions: { maxAttempts: 3, delayMs: 500 },
+ *     onChange: () => setRows(lazyTree.getFlatTree()),
+ *   },
+ * );
+ *
+ * await lazyTree.loadChildren(undefined);
+ *
+ * const handleExpand = (path: string) => lazyTree.loadChildren(path);
+ * ```
+ */
+export const createLazyTree = <OriginItem extends object>(
+  nodeIdKey: KeysWithNonArrayValues<OriginItem>,
+  loadChildren: LazyTreeChildrenLoader<OriginItem>,
+  { retryOptions = {}, onChange }: LazyTreeOptions = {},
+): HoneyLazyTree<OriginItem> => {
+  type NodeId = OriginItem[KeysWithNonArrayValues<OriginItem>];
+  type FlatNode = HoneyTreeFlatNode<OriginItem, never>;
+
+  interface LazyTreeRequest {
+    abortController: AbortController;
+    promise: Promise<FlatNode[]>;
+  }
+
+  interface LazyTreeNodeEntry extends LazyTreeNodeState {
+    request?: LazyTreeRequest;
+  }
+
+  const treeIndex = createTreeIndex<OriginItem, never>([], nodeIdKey);
+  // The state of the root nodes is stored under the `undefined` key
+  const entries = new Map<NodeId | undefined, LazyTreeNodeEntry>();
+
+  const assertNodeExists = (nodeId: NodeId | undefined) => {
+    assert(
+      isUndefined(nodeId) || treeIndex.has(nodeId),
+      `[@react-hive/honey-utils]: Node "${String(nodeId)}" was not found.`,
+    );
+  };
+
+  const getNodeId = (node: FlatNode) => node[nodeIdKey as never] as NodeId;
+
+  const mergeChildren = (parentId: NodeId | undefined, children: OriginItem[]) => {
+    const childIds = new Set<NodeId>();
+
+    // Validate all children first, so a failed merge does not leave the tree half-updated
+    children.forEach(child => {
+      const childId = child[nodeIdKey];
+
+      assert(
+        !childIds.has(childId) && !treeIndex.has(childId),
+        `[@react-hive/honey-utils]: Duplicate node id "${String(childId)}".`,
+      );
+
+      childIds.add(childId);
+    });
+
+    children.forEach(child => treeIndex.insert(child, parentId));
+  };
+
+  const invalidate = (nodeId: NodeId | undefined) => {
+    assertNodeExists(nodeId);
+
+    const descendantIds = isUndefined(nodeId)
+      ? treeIndex.toFlatTree().map(getNodeId)
+      : treeIndex.getDescendants(nodeId).map(getNodeId);
+
+    [nodeId, ...descendantIds].forEach(invalidatedId => {
+      entries.get(invalidatedId)?.request?.abortController.abort();
+      entries.delete(invalidatedId);
+    });
+
+    treeIndex.getChildren(nodeId).forEach(child => treeIndex.remove(getNodeId(child)));
+
+    onChange?.();
+  };
+
+  const load = (nodeId: NodeId | undefined): Promise<FlatNode[]> => {
+    assertNodeExists(nodeId);
+
+    const entry = entries.get(nodeId);
+
+    if (entry?.status === 'loaded') {
+      return Promise.resolve(treeIndex.getChildren(nodeId));
+    }
+
+    if (entry?.request) {
+      return entry.request.promise;
+    }
+
+    const abortController = new AbortController();
+    const { signal } = abortController;
+
+    const fetchChildren = retry<() => Promise<OriginItem[]>, OriginItem[]>(
+      () => loadChildren(nodeId, { signal }),
+      {
+        ...retryOptions,
+        signal,
+      },
+    );
+
+    const promise = fetchChildren()
+      .then(children => {
+        // The node may have been invalidated after the loader resolved
+        throwIfAborted(signal);
+
+        mergeChildren(nodeId, children);
+        entries.set(nodeId, { status: 'loaded', error: undefined });
+
+        onChange?.();
+
+        return treeIndex.getChildren(nodeId);
+      })
+      .catch((e: unknown) => {
+        // Invalidated nodes are already reset to `idle`
+        if (!signal.aborted) {
+          entries.set(nodeId, { status: 'error', error: e });
+
+          onChange?.();
+        }
+
+        throw e;
+      });
+
+    entries.set(nodeId, {
+      status: 'loading',
+      error: undefined,
+      request: { abortController, promise },
+    });
+
+    onChange?.();
+
+    return promise;
+  };
+
+  return {
+    getFlatTree: () => treeIndex.toFlatTree(),
+    getNode: nodeId => treeIndex.getNode(nodeId),
+    getNodeState: nodeId => {
+      assertNodeExists(nodeId);
+
+      const { status, error } = entries.get(nodeId) ?? { status: 'idle', error: undefined };
+
+      return { status, error };
+    },
+    loadChildren: load,
+    invalidate,
+    reload: nodeId => {
+      invalidate(nodeId);
+
+      return load(nodeId);
+    },
+  };
+};
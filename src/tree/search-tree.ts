@@ -1,17 +1,472 @@
-import type { KeysWithNonArrayValues, KeysWithStringValues } from '~/types';
+import type { KeysWithNonArrayValues, KeysWithStringValues, Nullable } from '~/types';
 import type { HoneyTreeFlatNode } from '~/tree';
-import { assert, isNull, isUndefined } from '~/guards';
-import { splitStringIntoWords } from '~/string';
+import { isFunction } from '~/function';
+import { assert, isNil } from '~/guards';
+import { isString, splitStringIntoWords } from '~/string';
+
+/**
+ * Built-in matching strategies of {@link searchTree}:
+ *
+ * - `prefix` — each query word must match the start of a word in the value
+ * - `substring` — each query word must occur anywhere in the value
+ * - `fuzzy` — the query characters must occur in the value in the same order, not necessarily adjacent
+ */
+export type TreeSearchMatchMode = 'prefix' | 'substring' | 'fuzzy';
+
+/**
+ * Half-open `[start, end)` character range of a match within a node value.
+ */
+export type TreeSearchMatchRange = [start: number, end: number];
+
+export interface TreeSearchMatcherResult {
+  /**
+   * Relevance of the match, where higher values are more relevant.
+   * Built-in matchers produce scores between `0` and `1`.
+   */
+  score: number;
+  /**
+   * Matched character ranges within the value.
+   */
+  ranges: TreeSearchMatchRange[];
+}
+
+/**
+ * Custom matching function.
+ *
+ * Receives the value and the query already lowercased (and without diacritics when
+ * `ignoreDiacritics` is enabled). Returned ranges refer to the received value and are
+ * mapped back to the original value automatically. Ranges must lie within the received value.
+ *
+ * @returns The match result, or `null` when the value does not match.
+ */
+export type TreeSearchMatcher = (
+  value: string,
+  searchQuery: string,
+) => Nullable<TreeSearchMatcherResult>;
+
+export interface SearchTreeOptions {
+  /**
+   * Matching strategy, either a built-in mode or a custom matcher.
+   *
+   * @default 'prefix'
+   */
+  matchMode?: TreeSearchMatchMode | TreeSearchMatcher;
+  /**
+   * Whether to ignore diacritics when comparing, so that e.g. `"cafe"` matches `"Café"`.
+   *
+   * @default false
+   */
+  ignoreDiacritics?: boolean;
+  /**
+   * Whether to order siblings by relevance, i.e. by the best match score within their subtree.
+   * The hierarchical order is preserved: parents still precede their descendants.
+   *
+   * @default false
+   */
+  sortByRelevance?: boolean;
+}
+
+export interface HoneyTreeSearchMatch<Key extends string> {
+  /**
+   * Key of the matched node field.
+   */
+  key: Key;
+  /**
+   * Relevance of the match.
+   */
+  score: number;
+  /**
+   * Matched character ranges within the original field value, useful for highlighting.
+   */
+  ranges: TreeSearchMatchRange[];
+}
+
+export interface HoneyTreeSearchResult<Node, Key extends string> {
+  node: Node;
+  /**
+   * Whether the node matched the query itself, rather than being included as context
+   * (an ancestor of a nested match or a descendant of a root match).
+   */
+  isMatch: boolean;
+  /**
+   * Best score among the node matches, or `0` for context nodes.
+   */
+  score: number;
+  /**
+   * Matches per searched field. Empty for context nodes.
+   */
+  matches: HoneyTreeSearchMatch<Key>[];
+}
+
+const WORD_REGEX = /[^ ]+/g;
+const COMBINING_DIACRITICS_REGEX = /[\u0300-\u036f]/g;
+
+/**
+ * Lowercases a value (and optionally strips diacritics), keeping track of the original index
+ * of every resulting character, plus a trailing sentinel equal to the original length.
+ */
+const normalizeSearchValue = (value: string, ignoreDiacritics: boolean) => {
+  const originIndices: number[] = [];
+
+  let normalizedValue = '';
+  let originIndex = 0;
+
+  for (const char of value) {
+    let normalizedChar = char.toLowerCase();
+
+    if (ignoreDiacritics) {
+      normalizedChar = normalizedChar.normalize('NFD').replace(COMBINING_DIACRITICS_REGEX, '');
+    }
+
+    for (let i = 0; i < normalizedChar.length; i++) {
+      originIndices.push(originIndex);
+    }
+
+    normalizedValue += normalizedChar;
+    originIndex += char.length;
+  }
+
+  originIndices.push(originIndex);
+
+  return { normalizedValue, originIndices };
+};
+
+const mergeRanges = (ranges: TreeSearchMatchRange[]) =>
+  [...ranges]
+    .sort(([startA], [startB]) => startA - startB)
+    .reduce<TreeSearchMatchRange[]>((mergedRanges, [start, end]) => {
+      const lastRange = mergedRanges[mergedRanges.length - 1];
+
+      if (lastRange && start <= lastRange[1]) {
+        lastRange[1] = Math.max(lastRange[1], end);
+      } else {
+        mergedRanges.push([start, end]);
+      }
+
+      return mergedRanges;
+    }, []);
+
+const getWords = (value: string) =>
+  [...value.matchAll(WORD_REGEX)].map(match => ({ word: match[0], start: match.index }));
+
+const matchPrefix: TreeSearchMatcher = (value, searchQuery) => {
+  const words = getWords(value);
+  const searchWords = splitStringIntoWords(searchQuery);
+
+  const ranges: TreeSearchMatchRange[] = [];
+  let totalScore = 0;
+
+  for (const searchWord of searchWords) {
+    const matchedWord = words.find(({ word }) => word.startsWith(searchWord));
+    if (!matchedWord) {
+      return null;
+    }
+
+    ranges.push([matchedWord.start, matchedWord.start + searchWord.length]);
+    totalScore += searchWord.length / matchedWord.word.length;
+  }
+
+  return { score: totalScore / searchWords.length, ranges: mergeRanges(ranges) };
+};
+
+const matchSubstring: TreeSearchMatcher = (value, searchQuery) => {
+  const words = getWords(value);
+  const searchWords = splitStringIntoWords(searchQuery);
+
+  const ranges: TreeSearchMatchRange[] = [];
+  let totalScore = 0;
+
+  for (const searchWord of searchWords) {
+    const matchIndex = value.indexOf(searchWord);
+    if (matchIndex === -1) {
+      return null;
+    }
+
+    const matchedWord = words.find(
+      ({ word, start }) => start <= matchIndex && matchIndex < start + word.length,
+    );
+    // Matches at the start of a word are more relevant than matches in the middle
+    const positionFactor = matchedWord?.start === matchIndex ? 1 : 0.75;
+
+    ranges.push([matchIndex, matchIndex + searchWord.length]);
+    totalScore += (positionFactor * searchWord.length) / (matchedWord?.word.length ?? value.length);
+  }
+
+  return { score: totalScore / searchWords.length, ranges: mergeRanges(ranges) };
+};
+
+const matchFuzzy: TreeSearchMatcher = (value, searchQuery) => {
+  const searchChars = searchQuery.replace(/ /g, '');
+  const ranges: TreeSearchMatchRange[] = [];
+
+  let valueIndex = 0;
+
+  for (const searchChar of searchChars) {
+    const matchIndex = value.indexOf(searchChar, valueIndex);
+    if (matchIndex === -1) {
+      return null;
+    }
+
+    valueIndex = matchIndex + searchChar.length;
+    ranges.push([matchIndex, valueIndex]);
+  }
+
+  const firstIndex = ranges[0][0];
+  const span = valueIndex - firstIndex;
+  // Compact matches starting at the beginning of the value are the most relevant
+  const score = (searchChars.length / span) * (firstIndex === 0 ? 1 : 0.9);
+
+  return { score, ranges: mergeRanges(ranges) };
+};
+
+const BUILT_IN_MATCHERS: Record<TreeSearchMatchMode, TreeSearchMatcher> = {
+  prefix: matchPrefix,
+  substring: matchSubstring,
+  fuzzy: matchFuzzy,
+};
+
+/**
+ * Reorders preorder search results so that siblings are sorted by the best score within their
+ * subtree, while parents still precede their descendants.
+ */
+const sortSearchResultsByRelevance = <Result extends HoneyTreeSearchResult<Node, string>, Node>(
+  results: Result[],
+  getNodeId: (node: Node) => unknown,
+) => {
+  const resultIds = new Set(results.map(result => getNodeId(result.node)));
+  const bestScoreByNodeId = new Map<unknown, number>();
+  const childResultsByParentId = new Map<unknown, Result[]>();
+
+  const getParentId = (result: Result) => {
+    const { parentId } = result.node as { parentId?: unknown };
+    // Nodes without an included parent are sorted together with the root nodes
+    return resultIds.has(parentId) ? parentId : undefined;
+  };
+
+  results.forEach(result => {
+    const parentId = getParentId(result);
+
+    const siblingResults = childResultsByParentId.get(parentId) ?? [];
+    childResultsByParentId.set(parentId, siblingResults);
+
+    siblingResults.push(result);
+  });
+
+  // In reverse preorder, descendants are always processed before their ancestors
+  [...results].reverse().forEach(result => {
+    const nodeId = getNodeId(result.node);
+    const bestScore = Math.max(result.score, bestScoreByNodeId.get(nodeId) ?? 0);
+
+    bestScoreByNodeId.set(nodeId, bestScore);
+
+    const parentId = getParentId(result);
+    if (!isNil(parentId)) {
+      bestScoreByNodeId.set(parentId, Math.max(bestScore, bestScoreByNodeId.get(parentId) ?? 0));
+    }
+  });
+
+  const sortResults = (siblingResults: Result[]) =>
+    [...siblingResults].sort(
+      (a, b) =>
+        (bestScoreByNodeId.get(getNodeId(b.node)) ?? 0) -
+        (bestScoreByNodeId.get(getNodeId(a.node)) ?? 0),
+    );
+
+  const sortedResults: Result[] = [];
+  const pendingResults: Result[] = [];
+
+  const pushChildResults = (parentId: unknown) => {
+    const childResults = sortResults(childResultsByParentId.get(parentId) ?? []);
+
+    for (let i = childResults.length - 1; i >= 0; i--) {
+      pendingResults.push(childResults[i]);
+    }
+  };
+
+  pushChildResults(undefined);
+
+  while (pendingResults.length) {
+    const result = pendingResults.pop() as Result;
+
+    sortedResults.push(result);
+    pushChildResults(getNodeId(result.node));
+  }
+
+  return sortedResults;
+};
+
+/**
+ * Performs a context-aware search over a flattened tree and reports why each node was included.
+ *
+ * This is the detailed variant of {@link searchTree}: every returned entry carries whether the
+ * node matched itself, its relevance score and the matched character ranges per field, so that
+ * hits can be highlighted and sorted.
+ *
+ * @template OriginItem - Original node shape of the hierarchical structure.
+ * @template ChildrenKey - Key of the removed nested children property.
+ * @template ValueKey - Keys of the searchable string fields.
+ *
+ * @param flatTree - Flat preorder list of tree nodes containing hierarchy metadata.
+ * @param nodeIdKey - Key that uniquely identifies each node.
+ * @param nodeValueKeys - Key or keys containing the searchable string values.
+ * @param searchQuery - User input query.
+ * @param options - Options controlling matching, diacritics handling and ordering.
+ *
+ * @returns Search results in preorder, including context nodes.
+ *
+ * @example
+ * ```ts
+ * const results = searchTreeWithMatches(flatTree, 'id', ['label', 'description'], 'kit', {
+ *   matchMode: 'substring',
+ *   ignoreDiacritics: true,
+ *   sortByRelevance: true,
+ * });
+ *
+ * results.forEach(({ node, matches }) => {
+ *   renderRow(node, matches.find(match => match.key === 'label')?.ranges);
+ * });
+ * ```
+ */
+export const searchTreeWithMatches = <
+  OriginItem extends object,
+  ChildrenKey extends string,
+  ValueKey extends KeysWithStringValues<OriginItem>,
+>(
+  flatTree: HoneyTreeFlatNode<OriginItem, ChildrenKey>[],
+  nodeIdKey: KeysWithNonArrayValues<OriginItem>,
+  nodeValueKeys: ValueKey | ValueKey[],
+  searchQuery: string,
+  {
+    matchMode = 'prefix',
+    ignoreDiacritics = false,
+    sortByRelevance = false,
+  }: SearchTreeOptions = {},
+): HoneyTreeSearchResult<HoneyTreeFlatNode<OriginItem, ChildrenKey>, ValueKey>[] => {
+  type FlatNode = HoneyTreeFlatNode<OriginItem, ChildrenKey>;
+  type SearchResult = HoneyTreeSearchResult<FlatNode, ValueKey>;
+
+  const { normalizedValue: normalizedQuery } = normalizeSearchValue(searchQuery, ignoreDiacritics);
+
+  if (!splitStringIntoWords(normalizedQuery).length) {
+    return flatTree.map(node => ({ node, isMatch: false, score: 0, matches: [] }));
+  }
+
+  const valueKeys = Array.isArray(nodeValueKeys) ? nodeValueKeys : [nodeValueKeys];
+  const matcher = isFunction(matchMode) ? matchMode : BUILT_IN_MATCHERS[matchMode];
+
+  const getNodeId = (node: FlatNode) => node[nodeIdKey as never] as unknown;
+
+  const resultByNodeId = new Map<unknown, SearchResult>();
+  const childrenByParentId = new Map<unknown, FlatNode[]>();
+
+  flatTree.forEach(node => {
+    const matches = valueKeys.reduce<HoneyTreeSearchMatch<ValueKey>[]>((result, key) => {
+      const value = node[key as never] as unknown;
+      // If the field value is null, undefined or empty string
+      if (!value || !isString(value)) {
+        return result;
+      }
+
+      const { normalizedValue, originIndices } = normalizeSearchValue(value, ignoreDiacritics);
+
+      const match = matcher(normalizedValue, normalizedQuery);
+      if (match) {
+        result.push({
+          key,
+          score: match.score,
+          ranges: mergeRanges(
+            match.ranges.map(([start, end]) => {
+              assert(
+                start >= 0 && start <= end && end <= normalizedValue.length,
+                `[@react-hive/honey-utils]: Match range [${start}, ${end}] is out of bounds of "${normalizedValue}".`,
+              );
+
+              let originEnd = end;
+              // A range may end inside a character that expanded during normalization
+              while (
+                originEnd < originIndices.length - 1 &&
+                originIndices[originEnd] === originIndices[end - 1]
+              ) {
+                originEnd++;
+              }
+
+              return [originIndices[start], originIndices[originEnd]];
+            }),
+          ),
+        });
+      }
+
+      return result;
+    }, []);
+
+    resultByNodeId.set(getNodeId(node), {
+      node,
+      isMatch: matches.length > 0,
+      score: Math.max(0, ...matches.map(match => match.score)),
+      matches,
+    });
+
+    if (!isNil(node.parentId)) {
+      const siblings = childrenByParentId.get(node.parentId) ?? [];
+      childrenByParentId.set(node.parentId, siblings);
+
+      siblings.push(node);
+    }
+  });
+
+  const includedNodeIds = new Set<unknown>();
+
+  resultByNodeId.forEach((result, nodeId) => {
+    if (!result.isMatch || includedNodeIds.has(nodeId)) {
+      return;
+    }
+
+    includedNodeIds.add(nodeId);
+
+    if (isNil(result.node.parentId)) {
+      // Root match: include the full descendant subtree so the hierarchy stays intact
+      const pendingNodes = [...(childrenByParentId.get(nodeId) ?? [])];
+
+      while (pendingNodes.length) {
+        const descendant = pendingNodes.pop() as FlatNode;
+
+        includedNodeIds.add(getNodeId(descendant));
+
+        (childrenByParentId.get(getNodeId(descendant)) ?? []).forEach(child =>
+          pendingNodes.push(child),
+        );
+      }
+    } else {
+      // Nested match: include the ancestor chain so the result remains navigable
+      let parentId: unknown = result.node.parentId;
+
+      while (!isNil(parentId) && !includedNodeIds.has(parentId)) {
+        includedNodeIds.add(parentId);
+        parentId = resultByNodeId.get(parentId)?.node.parentId;
+      }
+    }
+  });
+
+  const results = flatTree
+    .filter(node => includedNodeIds.has(getNodeId(node)))
+    .map(node => resultByNodeId.get(getNodeId(node)) as SearchResult);
+
+  return sortByRelevance ? sortSearchResultsByRelevance(results, getNodeId) : results;
+};
 
 /**
  * Performs a context-aware search over a flattened tree.
  *
- * Matching is applied to the provided string field (`nodeValueKey`) using
+ * By default, matching is applied to the provided string field (`nodeValueKey`) using
  * **case-insensitive, word-prefix comparison**:
  *
  * - The query is split into words
  * - Each query word must match the start of at least one word in the node value
  *
+ * The matching strategy can be changed to substring, fuzzy or a custom matcher, several fields can
+ * be searched at once, and diacritics can be ignored (see {@link SearchTreeOptions}). Use
+ * {@link searchTreeWithMatches} to get matched ranges and relevance scores.
+ *
  * Unlike a simple filter, this function preserves hierarchical context:
  *
  * - When a nested node matches, all of its ancestor nodes are included, so the
@@ -27,8 +482,9 @@ import { splitStringIntoWords } from '~/string';
  *
  * @param flatTree - Flat preorder list of tree nodes containing hierarchy metadata.
  * @param nodeIdKey - Key that uniquely identifies each node.
- * @param nodeValueKey - Key containing the searchable string value (e.g. `"name"`).
- * @param searchQuery - User input query. Split into words and matched by prefix.
+ * @param nodeValueKey - Key or keys containing the searchable string value (e.g. `"name"`).
+ * @param searchQuery - User input query.
+ * @param options - Options controlling matching, diacritics handling and ordering.
  *
  * @returns A filtered flat list containing:
  * - all matching nodes
@@ -53,92 +509,22 @@ import { splitStringIntoWords } from '~/string';
  * //
  * // Result includes: Root, Category, Item
  * ```
+ *
+ * @example
+ * ```ts
+ * const results = searchTree(flatTree, 'id', ['label', 'sku'], 'cafe', {
+ *   matchMode: 'fuzzy',
+ *   ignoreDiacritics: true,
+ * });
+ * ```
  */
 export const searchTree = <OriginItem extends object, ChildrenKey extends string>(
   flatTree: HoneyTreeFlatNode<OriginItem, ChildrenKey>[],
   nodeIdKey: KeysWithNonArrayValues<OriginItem>,
-  nodeValueKey: KeysWithStringValues<OriginItem>,
+  nodeValueKey: KeysWithStringValues<OriginItem> | KeysWithStringValues<OriginItem>[],
   searchQuery: string,
-) => {
-  const searchWords = splitStringIntoWords(searchQuery.toLowerCase());
-  if (!searchWords.length) {
-    return flatTree;
-  }
-
-  const nodeIdToIndexMap = flatTree.reduce<Record<string, number>>((result, node, nodeIndex) => {
-    // Map node id → index for fast ancestor lookup.
-    result[node[nodeIdKey as never]] = nodeIndex;
-
-    return result;
-  }, {});
-
-  return flatTree.reduce<HoneyTreeFlatNode<OriginItem, ChildrenKey>[]>((matchedNodes, node) => {
-    const nodeValue = node[nodeValueKey as never];
-    // If the item value is null, undefined or empty string
-    if (!nodeValue) {
-      return matchedNodes;
-    }
-
-    if (
-      matchedNodes.some(matchedNode => matchedNode[nodeIdKey as never] === node[nodeIdKey as never])
-    ) {
-      return matchedNodes;
-    }
-
-    const nodeValueWords = splitStringIntoWords((nodeValue as string).toLowerCase());
-
-    const isNodeMatched = searchWords.every(searchWord =>
-      nodeValueWords.some(word => word.startsWith(searchWord)),
-    );
-
-    if (isNodeMatched) {
-      if (isUndefined(node.parentId)) {
-        matchedNodes.push(node);
-
-        const insertNestedItems = (targetNode: HoneyTreeFlatNode<OriginItem, ChildrenKey>) => {
-          if (!targetNode.childCount) {
-            return;
-          }
-
-          flatTree.forEach(node => {
-            if (node.parentId === targetNode[nodeIdKey as never]) {
-              matchedNodes.push(node);
-
-              insertNestedItems(node);
-            }
-          });
-        };
-
-        insertNestedItems(node);
-      } else {
-        const insertParentNodes = (targetNode: HoneyTreeFlatNode<OriginItem, ChildrenKey>) => {
-          const parentNodeIndex = nodeIdToIndexMap[targetNode.parentId as never];
-          const parentNode = flatTree[parentNodeIndex];
-
-          if (!isUndefined(parentNode.parentId)) {
-            insertParentNodes(parentNode);
-          }
-
-          const prevNodeParentId = matchedNodes.length
-            ? matchedNodes[matchedNodes.length - 1].parentId
-            : null;
-
-          const shouldInsertParentNode =
-            isNull(prevNodeParentId) || prevNodeParentId !== targetNode.parentId;
-
-          if (shouldInsertParentNode) {
-            assert(parentNode, '[@react-hive/honey-utils]: Parent node was not found.');
-
-            matchedNodes.push(parentNode);
-          }
-        };
-
-        insertParentNodes(node);
-
-        matchedNodes.push(node);
-      }
-    }
-
-    return matchedNodes;
-  }, []);
-};
+  options?: SearchTreeOptions,
+): HoneyTreeFlatNode<OriginItem, ChildrenKey>[] =>
+  searchTreeWithMatches(flatTree, nodeIdKey, nodeValueKey, searchQuery, options).map(
+    result => result.node,
+  );
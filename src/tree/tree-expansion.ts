@@ -0,0 +1,206 @@
+import type { KeysWithNonArrayValues, Nullable } from '~/types';
+import type { HoneyTreeFlatNode } from '~/tree';
+import { assert, isNil } from '~/guards';
+
+/**
+ * Returns the nodes of a flattened tree that are visible for the given expansion state.
+ *
+ * A node is visible when all of its ancestors are expanded. Root nodes are always visible.
+ * Pass an empty set to collapse all nodes, or the result of {@link expandAllTreeNodes}
+ * to expand all of them.
+ *
+ * The computation is a single pass relying on the preorder and `depthLevel` produced by
+ * `flattenTree`, making it suitable for recomputing rows of virtualized tree views.
+ *
+ * @template OriginItem - Original node shape of the hierarchical structure.
+ * @template ChildrenKey - Key of the removed nested children property.
+ *
+ * @param flatTree - Flat preorder list of tree nodes containing hierarchy metadata.
+ * @param nodeIdKey - Key that uniquely identifies each node.
+ * @param expandedNodeIds - Identifiers of the expanded nodes.
+ *
+ * @returns The visible nodes in display order.
+ *
+ * @example
+ * ```ts
+ * const [expandedNodeIds, setExpandedNodeIds] = useState(() => new Set<number>());
+ *
+ * const visibleRows = useMemo(
+ *   () => getVisibleTreeNodes(flatTree, 'id', expandedNodeIds),
+ *   [flatTree, expandedNodeIds],
+ * );
+ * ```
+ */
+export const getVisibleTreeNodes = <OriginItem extends object, ChildrenKey extends string>(
+  flatTree: HoneyTreeFlatNode<OriginItem, ChildrenKey>[],
+  nodeIdKey: KeysWithNonArrayValues<OriginItem>,
+  expandedNodeIds: ReadonlySet<OriginItem[KeysWithNonArrayValues<OriginItem>]>,
+): HoneyTreeFlatNode<OriginItem, ChildrenKey>[] => {
+  // Depth of the closest collapsed ancestor, nodes deeper than it are hidden
+  let collapsedDepthLevel = Infinity;
+
+  return flatTree.filter(node => {
+    if (node.depthLevel > collapsedDepthLevel) {
+      return false;
+    }
+
+    collapsedDepthLevel =
+      node.childCount && !expandedNodeIds.has(node[nodeIdKey as never])
+        ? node.depthLevel
+        : Infinity;
+
+    return true;
+  });
+};
+
+/**
+ * Returns the identifiers of all nodes that have children, i.e. the expansion state
+ * where the whole tree is expanded.
+ *
+ * @template OriginItem - Original node shape of the hierarchical structure.
+ * @template ChildrenKey - Key of the removed nested children property.
+ *
+ * @param flatTree - Flat preorder list of tree nodes containing hierarchy metadata.
+ * @param nodeIdKey - Key that uniquely identifies each node.
+ *
+ * @returns A new set of expanded node identifiers.
+ */
+export const expandAllTreeNodes = <OriginItem extends object, ChildrenKey extends string>(
+  flatTree: HoneyTreeFlatNode<OriginItem, ChildrenKey>[],
+  nodeIdKey: KeysWithNonArrayValues<OriginItem>,
+): Set<OriginItem[KeysWithNonArrayValues<OriginItem>]> =>
+  new Set(
+    flatTree
+      .filter(node => node.childCount > 0)
+      .map(node => node[nodeIdKey as never] as OriginItem[KeysWithNonArrayValues<OriginItem>]),
+  );
+
+/**
+ * Expands all ancestors of a node so that it becomes visible, e.g. to reveal a search hit
+ * or the currently selected node. The node itself is not expanded.
+ *
+ * @template OriginItem - Original node shape of the hierarchical structure.
+ * @template ChildrenKey - Key of the removed nested children property.
+ *
+ * @param flatTree - Flat preorder list of tree nodes containing hierarchy metadata.
+ * @param nodeIdKey - Key that uniquely identifies each node.
+ * @param expandedNodeIds - Identifiers of the currently expanded nodes.
+ * @param nodeId - Identifier of the node to reveal.
+ *
+ * @returns A new set of expanded node identifiers.
+ */
+export const expandToTreeNode = <OriginItem extends object, ChildrenKey extends string>(
+  flatTree: HoneyTreeFlatNode<OriginItem, ChildrenKey>[],
+  nodeIdKey: KeysWithNonArrayValues<OriginItem>,
+  expandedNodeIds: ReadonlySet<OriginItem[KeysWithNonArrayValues<OriginItem>]>,
+  nodeId: OriginItem[KeysWithNonArrayValues<OriginItem>],
+): Set<OriginItem[KeysWithNonArrayValues<OriginItem>]> => {
+  const nodeById = new Map(flatTree.map(node => [node[nodeIdKey as never] as unknown, node]));
+
+  const node = nodeById.get(nodeId);
+  assert(node, `[@react-hive/honey-utils]: Node "${String(nodeId)}" was not found.`);
+
+  const nextExpandedNodeIds = new Set(expandedNodeIds);
+
+  let parentId = node.parentId;
+
+  while (!isNil(parentId)) {
+    nextExpandedNodeIds.add(parentId);
+    parentId = nodeById.get(parentId)?.parentId;
+  }
+
+  return nextExpandedNodeIds;
+};
+
+export interface AdjacentTreeNodes<Node> {
+  /**
+   * The visible node above the current one.
+   */
+  previousNode: Nullable<Node>;
+  /**
+   * The node matching the given identifier.
+   */
+  currentNode: Nullable<Node>;
+  /**
+   * The visible node below the current one.
+   */
+  nextNode: Nullable<Node>;
+  /**
+   * The parent of the current node, `null` for root nodes.
+   */
+  parentNode: Nullable<Node>;
+  /**
+   * The first child of the current node, `null` when the node is collapsed or has no children.
+   */
+  firstChildNode: Nullable<Node>;
+}
+
+/**
+ * Returns the nodes surrounding a node within the visible rows of a tree view.
+ *
+ * This is the tree counterpart of `getAdjacentItems`, covering common keyboard navigation:
+ *
+ * - `ArrowUp` / `ArrowDown` → `previousNode` / `nextNode`
+ * - `ArrowLeft` on a collapsed or leaf node → `parentNode`
+ * - `ArrowRight` on an expanded node → `firstChildNode`
+ *
+ * @template OriginItem - Original node shape of the hierarchical structure.
+ * @template ChildrenKey - Key of the removed nested children property.
+ *
+ * @param visibleNodes - Visible rows, as returned by {@link getVisibleTreeNodes}.
+ * @param nodeIdKey - Key that uniquely identifies each node.
+ * @param nodeId - Identifier of the current node.
+ *
+ * @returns Adjacent nodes around the current node. All entries are `null` if it is not visible.
+ *
+ * @example
+ * ```ts
+ * const { nextNode } = getAdjacentTreeNodes(visibleRows, 'id', focusedNodeId);
+ *
+ * if (event.key === 'ArrowDown' && nextNode) {
+ *   setFocusedNodeId(nextNode.id);
+ * }
+ * ```
+ */
+export const getAdjacentTreeNodes = <OriginItem extends object, ChildrenKey extends string>(
+  visibleNodes: HoneyTreeFlatNode<OriginItem, ChildrenKey>[],
+  nodeIdKey: KeysWithNonArrayValues<OriginItem>,
+  nodeId: Nullable<OriginItem[KeysWithNonArrayValues<OriginItem>]> | undefined,
+): AdjacentTreeNodes<HoneyTreeFlatNode<OriginItem, ChildrenKey>> => {
+  const currentNodeIndex = isNil(nodeId)
+    ? -1
+    : visibleNodes.findIndex(node => node[nodeIdKey as never] === nodeId);
+
+  if (currentNodeIndex === -1) {
+    return {
+      previousNode: null,
+      currentNode: null,
+      nextNode: null,
+      parentNode: null,
+      firstChildNode: null,
+    };
+  }
+
+  const currentNode = visibleNodes[currentNodeIndex];
+  const nextNode = visibleNodes[currentNodeIndex + 1] ?? null;
+
+  let parentNode: Nullable<HoneyTreeFlatNode<OriginItem, ChildrenKey>> = null;
+
+  if (!isNil(currentNode.parentId)) {
+    // The parent of a visible node is always visible and precedes it
+    for (let i = currentNodeIndex - 1; i >= 0; i--) {
+      if (visibleNodes[i][nodeIdKey as never] === currentNode.parentId) {
+        parentNode = visibleNodes[i];
+        break;
+      }
+    }
+  }
+
+  return {
+    previousNode: visibleNodes[currentNodeIndex - 1] ?? null,
+    currentNode,
+    nextNode,
+    parentNode,
+    firstChildNode: nextNode?.parentId === nodeId ? nextNode : null,
+  };
+};
@@ -0,0 +1,405 @@
+import type { KeysWithNonArrayValues } from '~/types';
+import type { HoneyTreeFlatNode } from '~/tree';
+import { assert, isNil, isUndefined } from '~/guards';
+
+export interface HoneyTreeIndex<OriginItem extends object, ChildrenKey extends string> {
+  /**
+   * Number of indexed nodes.
+   */
+  readonly size: number;
+  /**
+   * Checks whether a node with the given id is indexed.
+   */
+  has: (nodeId: OriginItem[KeysWithNonArrayValues<OriginItem>]) => boolean;
+  /**
+   * Returns the node with the given id, or `undefined` if it is not indexed.
+   */
+  getNode: (
+    nodeId: OriginItem[KeysWithNonArrayValues<OriginItem>],
+  ) => HoneyTreeFlatNode<OriginItem, ChildrenKey> | undefined;
+  /**
+   * Returns the parent of the given node, or `undefined` for root nodes.
+   */
+  getParent: (
+    nodeId: OriginItem[KeysWithNonArrayValues<OriginItem>],
+  ) => HoneyTreeFlatNode<OriginItem, ChildrenKey> | undefined;
+  /**
+   * Returns the direct children of the given node in sibling order.
+   * Pass `undefined` to get the root nodes.
+   */
+  getChildren: (
+    nodeId: OriginItem[KeysWithNonArrayValues<OriginItem>] | undefined,
+  ) => HoneyTreeFlatNode<OriginItem, ChildrenKey>[];
+  /**
+   * Returns the other children of the node's parent in sibling order, excluding the node itself.
+   */
+  getSiblings: (
+    nodeId: OriginItem[KeysWithNonArrayValues<OriginItem>],
+  ) => HoneyTreeFlatNode<OriginItem, ChildrenKey>[];
+  /**
+   * Returns the ancestors of the given node, starting from its parent and ending with the root.
+   */
+  getAncestors: (
+    nodeId: OriginItem[KeysWithNonArrayValues<OriginItem>],
+  ) => HoneyTreeFlatNode<OriginItem, ChildrenKey>[];
+  /**
+   * Returns the path from the root to the given node, including the node itself.
+   */
+  getPath: (
+    nodeId: OriginItem[KeysWithNonArrayValues<OriginItem>],
+  ) => HoneyTreeFlatNode<OriginItem, ChildrenKey>[];
+  /**
+   * Returns all descendants of the given node in preorder, excluding the node itself.
+   */
+  getDescendants: (
+    nodeId: OriginItem[KeysWithNonArrayValues<OriginItem>],
+  ) => HoneyTreeFlatNode<OriginItem, ChildrenKey>[];
+  /**
+   * Inserts a new node under the given parent.
+   *
+   * @param nodeData - Node data without hierarchy metadata.
+   * @param parentId - Identifier of the parent node, or `undefined` to insert a root node.
+   * @param index - Position among the new siblings. Defaults to the end.
+   *
+   * @returns The inserted node with hierarchy metadata attached.
+   */
+  insert: (
+    nodeData: Omit<OriginItem, ChildrenKey>,
+    parentId?: OriginItem[KeysWithNonArrayValues<OriginItem>],
+    index?: number,
+  ) => HoneyTreeFlatNode<OriginItem, ChildrenKey>;
+  /**
+   * Moves a node together with its subtree under a new parent.
+   *
+   * Refuses to move a node into itself or into one of its descendants.
+   *
+   * @param nodeId - Identifier of the node to move.
+   * @param parentId - Identifier of the new parent node, or `undefined` to move to the root level.
+   * @param index - Position among the new siblings, after the node is detached. Defaults to the end.
+   */
+  move: (
+    nodeId: OriginItem[KeysWithNonArrayValues<OriginItem>],
+    parentId: OriginItem[KeysWithNonArrayValues<OriginItem>] | undefined,
+    index?: number,
+  ) => void;
+  /**
+   * Removes a node together with its subtree.
+   *
+   * @returns The removed nodes in preorder.
+   */
+  remove: (
+    nodeId: OriginItem[KeysWithNonArrayValues<OriginItem>],
+  ) => HoneyTreeFlatNode<OriginItem, ChildrenKey>[];
+  /**
+   * Returns all indexed nodes as a flat preorder list.
+   */
+  toFlatTree: () => HoneyTreeFlatNode<OriginItem, ChildrenKey>[];
+}
+
+/**
+ * Creates an index over a flattened tree for constant-time node and relationship lookups.
+ *
+ * Unlike `getTreeChildren`, which filters the whole list on every call, the index keeps
+ * id → node and parent → children maps. It can be updated incrementally via `insert`, `move`
+ * and `remove`, keeping `parentId`, `depthLevel` and `childCount` consistent.
+ *
+ * Nodes are never mutated: updated nodes are replaced with new objects.
+ *
+ * @template OriginItem - Original node shape of the hierarchical structure.
+ * @template ChildrenKey - Key of the removed nested children property.
+ *
+ * @param flatTree - Flat preorder list of tree nodes containing hierarchy metadata.
+ * @param nodeIdKey - Key that uniquely identifies each node.
+ *
+ * @returns A tree index instance.
+ *
+ * @example
+ * ```ts
+ * const treeIndex = createTreeIndex(flattenTree(categories, 'id', 'children'), 'id');
+ *
+ * treeIndex.getChildren(1);
+ * treeIndex.getPath(42).map(node => node.name).join(' / ');
+ *
+ * treeIndex.move(42, 7);
+ * const flatTree = treeIndex.toFlatTree();
+ * ```
+ */
+export const createTreeIndex = <OriginItem extends object, ChildrenKey extends string>(
+  flatTree: HoneyTreeFlatNode<OriginItem, ChildrenKey>[],
+  nodeIdKey: KeysWithNonArrayValues<OriginItem>,
+): HoneyTreeIndex<OriginItem, ChildrenKey> => {
+  type NodeId = OriginItem[KeysWithNonArrayValues<OriginItem>];
+  type FlatNode = HoneyTreeFlatNode<OriginItem, ChildrenKey>;
+
+  const nodeById = new Map<NodeId, FlatNode>();
+  // Root nodes are stored under the `undefined` key
+  const childIdsByParentId = new Map<NodeId | undefined, NodeId[]>();
+  // Position of each node among its siblings, so detaching does not scan the sibling list
+  const siblingIndexById = new Map<NodeId, number>();
+
+  const getNodeId = (node: FlatNode) => node[nodeIdKey as never] as NodeId;
+
+  // Some sources mark root nodes with a `null` parent id
+  const getParentId = (node: FlatNode) => (isNil(node.parentId) ? undefined : node.parentId);
+
+  const getChildIds = (parentId: NodeId | undefined): readonly NodeId[] =>
+    childIdsByParentId.get(parentId) ?? [];
+
+  const getOrCreateChildIds = (parentId: NodeId | undefined) => {
+    let childIds = childIdsByParentId.get(parentId);
+
+    if (!childIds) {
+      childIds = [];
+      childIdsByParentId.set(parentId, childIds);
+    }
+
+    return childIds;
+  };
+
+  const reindexSiblings = (siblingIds: NodeId[], fromIndex: number) => {
+    for (let i = fromIndex; i < siblingIds.length; i++) {
+      siblingIndexById.set(siblingIds[i], i);
+    }
+  };
+
+  const getExistingNode = (nodeId: NodeId) => {
+    const node = nodeById.get(nodeId);
+    assert(node, `[@react-hive/honey-utils]: Node "${String(nodeId)}" was not found.`);
+
+    return node;
+  };
+
+  const updateNode = (nodeId: NodeId, patch: Partial<FlatNode>) => {
+    nodeById.set(nodeId, { ...getExistingNode(nodeId), ...patch });
+  };
+
+  const getNodes = (nodeIds: readonly NodeId[]) =>
+    nodeIds.map(nodeId => nodeById.get(nodeId) as FlatNode);
+
+  const getDescendantIds = (nodeId: NodeId | undefined) => {
+    const descendantIds: NodeId[] = [];
+    const pendingIds: NodeId[] = [];
+
+    const pushChildIds = (parentId: NodeId | undefined) => {
+      const childIds = getChildIds(parentId);
+
+      for (let i = childIds.length - 1; i >= 0; i--) {
+        pendingIds.push(childIds[i]);
+      }
+    };
+
+    pushChildIds(nodeId);
+
+    while (pendingIds.length) {
+      const descendantId = pendingIds.pop() as NodeId;
+
+      descendantIds.push(descendantId);
+      pushChildIds(descendantId);
+    }
+
+    return descendantIds;
+  };
+
+  const assertInsertIndex = (index: number | undefined, siblingCount: number) => {
+    assert(
+      isUndefined(index) || (index >= 0 && index <= siblingCount),
+      `[@react-hive/honey-utils]: Index ${index} is out of range.`,
+    );
+  };
+
+  const attachNode = (nodeId: NodeId, parentId: NodeId | undefined, index?: number) => {
+    const siblingIds = getOrCreateChildIds(parentId);
+    const insertIndex = isUndefined(index) ? siblingIds.length : index;
+
+    siblingIds.splice(insertIndex, 0, nodeId);
+    reindexSiblings(siblingIds, insertIndex);
+
+    if (!isUndefined(parentId)) {
+      updateNode(parentId, { childCount: siblingIds.length } as Partial<FlatNode>);
+    }
+  };
+
+  const detachNode = (nodeId: NodeId) => {
+    const parentId = getParentId(getExistingNode(nodeId));
+    const siblingIds = getOrCreateChildIds(parentId);
+    const siblingIndex = siblingIndexById.get(nodeId) as number;
+
+    siblingIds.splice(siblingIndex, 1);
+    siblingIndexById.delete(nodeId);
+    reindexSiblings(siblingIds, siblingIndex);
+
+    if (!isUndefined(parentId)) {
+      updateNode(parentId, { childCount: siblingIds.length } as Partial<FlatNode>);
+    }
+  };
+
+  flatTree.forEach(node => {
+    const nodeId = getNodeId(node);
+
+    assert(
+      !nodeById.has(nodeId),
+      `[@react-hive/honey-utils]: Duplicate node id "${String(nodeId)}".`,
+    );
+
+    nodeById.set(nodeId, node);
+  });
+
+  flatTree.forEach(node => {
+    const parentId = getParentId(node);
+
+    assert(
+      isUndefined(parentId) || nodeById.has(parentId),
+      `[@react-hive/honey-utils]: Parent node "${String(parentId)}" of node "${String(getNodeId(node))}" was not found.`,
+    );
+
+    const siblingIds = getOrCreateChildIds(parentId);
+
+    siblingIndexById.set(getNodeId(node), siblingIds.length);
+    siblingIds.push(getNodeId(node));
+  });
+
+  const reachableIds = new Set(getDescendantIds(undefined));
+
+  if (reachableIds.size < nodeById.size) {
+    // Nodes that are not reachable from a root belong to a cycle or descend from one
+    nodeById.forEach((_node, nodeId) => {
+      if (reachableIds.has(nodeId)) {
+        return;
+      }
+
+      const ancestorIds: NodeId[] = [];
+      let currentId: NodeId | undefined = nodeId;
+
+      while (!isUndefined(currentId)) {
+        const cycleStartIndex = ancestorIds.indexOf(currentId);
+
+        assert(
+          cycleStartIndex === -1,
+          `[@react-hive/honey-utils]: Cycle detected in parent chain: ${[
+            ...ancestorIds.slice(cycleStartIndex),
+            currentId,
+          ]
+            .map(String)
+            .join(' → ')}.`,
+        );
+
+        ancestorIds.push(currentId);
+        currentId = getParentId(nodeById.get(currentId) as FlatNode);
+      }
+    });
+  }
+
+  const getAncestors = (nodeId: NodeId) => {
+    const ancestors: FlatNode[] = [];
+
+    let parentId = getParentId(getExistingNode(nodeId));
+
+    while (!isUndefined(parentId)) {
+      const parentNode = getExistingNode(parentId);
+
+      ancestors.push(parentNode);
+      parentId = getParentId(parentNode);
+    }
+
+    return ancestors;
+  };
+
+  return {
+    get size() {
+      return nodeById.size;
+    },
+    has: nodeId => nodeById.has(nodeId),
+    getNode: nodeId => nodeById.get(nodeId),
+    getParent: nodeId => {
+      const node = nodeById.get(nodeId);
+      const parentId = node && getParentId(node);
+
+      return isUndefined(parentId) ? undefined : nodeById.get(parentId);
+    },
+    getChildren: nodeId => getNodes(getChildIds(nodeId)),
+    getSiblings: nodeId =>
+      getNodes(
+        getChildIds(getParentId(getExistingNode(nodeId))).filter(siblingId => siblingId !== nodeId),
+      ),
+    getAncestors,
+    getPath: nodeId => [...getAncestors(nodeId).reverse(), getExistingNode(nodeId)],
+    getDescendants: nodeId => {
+      getExistingNode(nodeId);
+
+      return getNodes(getDescendantIds(nodeId));
+    },
+    insert: (nodeData, parentId, index) => {
+      const nodeId = nodeData[nodeIdKey as never] as NodeId;
+
+      assert(
+        !nodeById.has(nodeId),
+        `[@react-hive/honey-utils]: Duplicate node id "${String(nodeId)}".`,
+      );
+
+      const depthLevel = isUndefined(parentId) ? 0 : getExistingNode(parentId).depthLevel + 1;
+
+      const node = {
+        ...nodeData,
+        parentId,
+        depthLevel,
+        childCount: 0,
+      } as FlatNode;
+
+      assertInsertIndex(index, getChildIds(parentId).length);
+
+      nodeById.set(nodeId, node);
+      attachNode(nodeId, parentId, index);
+
+      return node;
+    },
+    move: (nodeId, parentId, index) => {
+      const node = getExistingNode(nodeId);
+
+      if (!isUndefined(parentId)) {
+        assert(
+          parentId !== nodeId &&
+            !getAncestors(parentId).some(ancestor => getNodeId(ancestor) === nodeId),
+          `[@react-hive/honey-utils]: Node "${String(nodeId)}" cannot be moved into its own subtree.`,
+        );
+      }
+
+      const isSameParent = getParentId(node) === parentId;
+
+      assertInsertIndex(index, getChildIds(parentId).length - (isSameParent ? 1 : 0));
+
+      detachNode(nodeId);
+      attachNode(nodeId, parentId, index);
+
+      const depthOffset =
+        (isUndefined(parentId) ? 0 : getExistingNode(parentId).depthLevel + 1) - node.depthLevel;
+
+      updateNode(nodeId, {
+        parentId,
+        depthLevel: node.depthLevel + depthOffset,
+      } as Partial<FlatNode>);
+
+      if (depthOffset) {
+        getDescendantIds(nodeId).forEach(descendantId => {
+          updateNode(descendantId, {
+            depthLevel: getExistingNode(descendantId).depthLevel + depthOffset,
+          } as Partial<FlatNode>);
+        });
+      }
+    },
+    remove: nodeId => {
+      detachNode(nodeId);
+
+      const removedIds = [nodeId, ...getDescendantIds(nodeId)];
+      const removedNodes = getNodes(removedIds);
+
+      removedIds.forEach(removedId => {
+        nodeById.delete(removedId);
+        childIdsByParentId.delete(removedId);
+        siblingIndexById.delete(removedId);
+      });
+
+      return removedNodes;
+    },
+    toFlatTree: () => getNodes(getDescendantIds(undefined)),
+  };
+};
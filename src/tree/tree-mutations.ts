@@ -0,0 +1,291 @@
+import type { KeysWithArrayValues, KeysWithNonArrayValues } from '~/types';
+import { assert, isUndefined } from '~/guards';
+
+export interface RemoveTreeNodeOptions {
+  /**
+   * Whether to keep the children of the removed node by lifting them to its position.
+   * When `false`, the whole subtree is removed.
+   *
+   * @default false
+   */
+  keepChildren?: boolean;
+}
+
+const getChildItems = <OriginItem extends object>(
+  item: OriginItem,
+  childrenKey: KeysWithArrayValues<OriginItem>,
+) => (item[childrenKey] ?? []) as OriginItem[];
+
+/**
+ * Returns the index path (one index per level) of the node with the given id, or `null` if not found.
+ */
+const findTreeNodePath = <OriginItem extends object>(
+  items: OriginItem[],
+  nodeIdKey: KeysWithNonArrayValues<OriginItem>,
+  childrenKey: KeysWithArrayValues<OriginItem>,
+  nodeId: OriginItem[KeysWithNonArrayValues<OriginItem>],
+): number[] | null => {
+  const pendingEntries = items.map((item, index) => ({ item, path: [index] })).reverse();
+
+  while (pendingEntries.length) {
+    const { item, path } = pendingEntries.pop() as (typeof pendingEntries)[number];
+
+    if (item[nodeIdKey] === nodeId) {
+      return path;
+    }
+
+    const children = getChildItems(item, childrenKey);
+
+    for (let i = children.length - 1; i >= 0; i--) {
+      pendingEntries.push({ item: children[i], path: [...path, i] });
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Calls `fn` for every node of the given subtrees in preorder.
+ */
+const forEachTreeNode = <OriginItem extends object>(
+  items: OriginItem[],
+  childrenKey: KeysWithArrayValues<OriginItem>,
+  fn: (item: OriginItem) => void,
+) => {
+  const pendingItems = [...items].reverse();
+
+  while (pendingItems.length) {
+    const item = pendingItems.pop() as OriginItem;
+    const children = getChildItems(item, childrenKey);
+
+    fn(item);
+
+    for (let i = children.length - 1; i >= 0; i--) {
+      pendingItems.push(children[i]);
+    }
+  }
+};
+
+const getExistingTreeNodePath = <OriginItem extends object>(
+  items: OriginItem[],
+  nodeIdKey: KeysWithNonArrayValues<OriginItem>,
+  childrenKey: KeysWithArrayValues<OriginItem>,
+  nodeId: OriginItem[KeysWithNonArrayValues<OriginItem>],
+) => {
+  const path = findTreeNodePath(items, nodeIdKey, childrenKey, nodeId);
+  assert(path, `[@react-hive/honey-utils]: Node "${String(nodeId)}" was not found.`);
+
+  return path;
+};
+
+/**
+ * Returns a copy of the tree where the child list at `parentPath` is replaced by `update(children)`.
+ * Only the nodes along the path are copied, untouched subtrees are shared with the original tree.
+ */
+const updateChildItemsAtPath = <OriginItem extends object>(
+  items: OriginItem[],
+  childrenKey: KeysWithArrayValues<OriginItem>,
+  parentPath: number[],
+  update: (children: OriginItem[]) => OriginItem[],
+): OriginItem[] => {
+  if (!parentPath.length) {
+    return update(items);
+  }
+
+  const [index, ...restPath] = parentPath;
+  const item = items[index];
+
+  const updatedItems = [...items];
+  updatedItems[index] = {
+    ...item,
+    [childrenKey]: updateChildItemsAtPath(
+      getChildItems(item, childrenKey),
+      childrenKey,
+      restPath,
+      update,
+    ),
+  };
+
+  return updatedItems;
+};
+
+const getItemAtPath = <OriginItem extends object>(
+  items: OriginItem[],
+  childrenKey: KeysWithArrayValues<OriginItem>,
+  path: number[],
+) => path.slice(1).reduce((item, index) => getChildItems(item, childrenKey)[index], items[path[0]]);
+
+const insertAt = <Item>(items: Item[], item: Item, index = items.length) => {
+  assert(
+    index >= 0 && index <= items.length,
+    `[@react-hive/honey-utils]: Index ${index} is out of range.`,
+  );
+
+  return [...items.slice(0, index), item, ...items.slice(index)];
+};
+
+/**
+ * Immutably inserts a node into a nested tree.
+ *
+ * @template OriginItem - Node shape of the hierarchical structure.
+ *
+ * @param items - Root-level nodes of the tree.
+ * @param nodeIdKey - Key that uniquely identifies each node.
+ * @param childrenKey - Key containing the nested child node array.
+ * @param item - The node to insert.
+ * @param parentId - Identifier of the parent node, or `undefined` to insert a root node.
+ * @param index - Position among the new siblings. Defaults to the end.
+ *
+ * @returns A new tree containing the inserted node. Untouched subtrees are shared with the input.
+ *
+ * @example
+ * ```ts
+ * const nextTree = insertTreeNode(tree, 'id', 'children', { id: 10, name: 'New', children: [] }, 1);
+ * ```
+ */
+export const insertTreeNode = <OriginItem extends object>(
+  items: OriginItem[],
+  nodeIdKey: KeysWithNonArrayValues<OriginItem>,
+  childrenKey: KeysWithArrayValues<OriginItem>,
+  item: OriginItem,
+  parentId?: OriginItem[KeysWithNonArrayValues<OriginItem>],
+  index?: number,
+): OriginItem[] => {
+  const nodeIds = new Set<unknown>();
+  forEachTreeNode(items, childrenKey, existingItem => nodeIds.add(existingItem[nodeIdKey]));
+
+  // The inserted item may carry its own subtree, whose ids must be unique as well
+  forEachTreeNode([item], childrenKey, insertedItem => {
+    const nodeId = insertedItem[nodeIdKey];
+
+    assert(
+      !nodeIds.has(nodeId),
+      `[@react-hive/honey-utils]: Duplicate node id "${String(nodeId)}".`,
+    );
+
+    nodeIds.add(nodeId);
+  });
+
+  const parentPath = isUndefined(parentId)
+    ? []
+    : getExistingTreeNodePath(items, nodeIdKey, childrenKey, parentId);
+
+  return updateChildItemsAtPath(items, childrenKey, parentPath, children =>
+    insertAt(children, item, index),
+  );
+};
+
+/**
+ * Immutably removes a node from a nested tree.
+ *
+ * By default the whole subtree is removed. With `keepChildren`, the children of the removed
+ * node take its place among its siblings.
+ *
+ * @template OriginItem - Node shape of the hierarchical structure.
+ *
+ * @param items - Root-level nodes of the tree.
+ * @param nodeIdKey - Key that uniquely identifies each node.
+ * @param childrenKey - Key containing the nested child node array.
+ * @param nodeId - Identifier of the node to remove.
+ * @param options - Options controlling whether children are kept.
+ *
+ * @returns A new tree without the removed node.
+ */
+export const removeTreeNode = <OriginItem extends object>(
+  items: OriginItem[],
+  nodeIdKey: KeysWithNonArrayValues<OriginItem>,
+  childrenKey: KeysWithArrayValues<OriginItem>,
+  nodeId: OriginItem[KeysWithNonArrayValues<OriginItem>],
+  { keepChildren = false }: RemoveTreeNodeOptions = {},
+): OriginItem[] => {
+  const path = getExistingTreeNodePath(items, nodeIdKey, childrenKey, nodeId);
+  const index = path[path.length - 1];
+
+  return updateChildItemsAtPath(items, childrenKey, path.slice(0, -1), children => [
+    ...children.slice(0, index),
+    ...(keepChildren ? getChildItems(children[index], childrenKey) : []),
+    ...children.slice(index + 1),
+  ]);
+};
+
+/**
+ * Immutably moves a node together with its subtree under a new parent in a nested tree.
+ *
+ * Refuses to move a node into itself or into one of its descendants.
+ *
+ * @template OriginItem - Node shape of the hierarchical structure.
+ *
+ * @param items - Root-level nodes of the tree.
+ * @param nodeIdKey - Key that uniquely identifies each node.
+ * @param childrenKey - Key containing the nested child node array.
+ * @param nodeId - Identifier of the node to move.
+ * @param parentId - Identifier of the new parent node, or `undefined` to move to the root level.
+ * @param index - Position among the new siblings, after the node is detached. Defaults to the end.
+ *
+ * @returns A new tree with the node at its new position.
+ */
+export const moveTreeNode = <OriginItem extends object>(
+  items: OriginItem[],
+  nodeIdKey: KeysWithNonArrayValues<OriginItem>,
+  childrenKey: KeysWithArrayValues<OriginItem>,
+  nodeId: OriginItem[KeysWithNonArrayValues<OriginItem>],
+  parentId: OriginItem[KeysWithNonArrayValues<OriginItem>] | undefined,
+  index?: number,
+): OriginItem[] => {
+  const path = getExistingTreeNodePath(items, nodeIdKey, childrenKey, nodeId);
+
+  if (!isUndefined(parentId)) {
+    const parentPath = getExistingTreeNodePath(items, nodeIdKey, childrenKey, parentId);
+
+    assert(
+      parentPath.length < path.length || path.some((pathIndex, i) => pathIndex !== parentPath[i]),
+      `[@react-hive/honey-utils]: Node "${String(nodeId)}" cannot be moved into its own subtree.`,
+    );
+  }
+
+  const item = getItemAtPath(items, childrenKey, path);
+  const itemsWithoutNode = removeTreeNode(items, nodeIdKey, childrenKey, nodeId);
+
+  return insertTreeNode(itemsWithoutNode, nodeIdKey, childrenKey, item, parentId, index);
+};
+
+/**
+ * Immutably updates the data of a node in a nested tree.
+ *
+ * @template OriginItem - Node shape of the hierarchical structure.
+ *
+ * @param items - Root-level nodes of the tree.
+ * @param nodeIdKey - Key that uniquely identifies each node.
+ * @param childrenKey - Key containing the nested child node array.
+ * @param nodeId - Identifier of the node to update.
+ * @param update - Function returning the fields to change. The node id cannot be changed.
+ *
+ * @returns A new tree with the updated node.
+ *
+ * @example
+ * ```ts
+ * const nextTree = updateTreeNode(tree, 'id', 'children', 2, node => ({ name: `${node.name} (2)` }));
+ * ```
+ */
+export const updateTreeNode = <OriginItem extends object>(
+  items: OriginItem[],
+  nodeIdKey: KeysWithNonArrayValues<OriginItem>,
+  childrenKey: KeysWithArrayValues<OriginItem>,
+  nodeId: OriginItem[KeysWithNonArrayValues<OriginItem>],
+  update: (item: OriginItem) => Partial<OriginItem>,
+): OriginItem[] => {
+  const path = getExistingTreeNodePath(items, nodeIdKey, childrenKey, nodeId);
+  const index = path[path.length - 1];
+
+  return updateChildItemsAtPath(items, childrenKey, path.slice(0, -1), children => {
+    const item = children[index];
+    const updatedItem = { ...item, ...update(item) };
+
+    assert(
+      updatedItem[nodeIdKey] === nodeId,
+      `[@react-hive/honey-utils]: The id of node "${String(nodeId)}" cannot be changed.`,
+    );
+
+    return [...children.slice(0, index), updatedItem, ...children.slice(index + 1)];
+  });
+};
@@ -0,0 +1,282 @@
+import type { KeysWithNonArrayValues } from '~/types';
+import type { HoneyTreeFlatNode } from '~/tree';
+import { assert, isNil, isUndefined } from '~/guards';
+
+export type TreeCheckState = 'checked' | 'indeterminate' | 'unchecked';
+
+/**
+ * Selection strategy of a tree selection:
+ *
+ * - `cascade` — checking a node checks all of its descendants, and a parent is checked when all
+ *   of its children are checked. Partially checked parents are `indeterminate`.
+ * - `independent` — every node is checked on its own, without affecting other nodes.
+ */
+export type TreeSelectionMode = 'cascade' | 'independent';
+
+export interface TreeSelectionOptions<NodeId> {
+  /**
+   * Selection strategy.
+   *
+   * @default 'cascade'
+   */
+  mode?: TreeSelectionMode;
+  /**
+   * Initially selected node ids. In `cascade` mode, selecting a parent selects its whole subtree.
+   *
+   * @default []
+   */
+  selectedNodeIds?: Iterable<NodeId>;
+}
+
+export interface HoneyTreeSelection<NodeId> {
+  /**
+   * Returns the check state of the given node.
+   */
+  getCheckState: (nodeId: NodeId) => TreeCheckState;
+  /**
+   * Checks whether the given node is checked.
+   */
+  isChecked: (nodeId: NodeId) => boolean;
+  /**
+   * Toggles the given node, or sets its state explicitly when `isChecked` is provided.
+   *
+   * In `cascade` mode, the new state is applied to the whole subtree and ancestors are updated.
+   */
+  toggle: (nodeId: NodeId, isChecked?: boolean) => void;
+  /**
+   * Unchecks all nodes.
+   */
+  clear: () => void;
+  /**
+   * Returns the ids of all checked nodes in tree order.
+   */
+  getSelectedIds: () => NodeId[];
+  /**
+   * Returns the minimal set of ids describing the selection in tree order.
+   *
+   * In `cascade` mode, fully checked subtrees are collapsed to their topmost checked node.
+   * In `independent` mode, this is the same as `getSelectedIds()`.
+   */
+  getMinimalSelectedIds: () => NodeId[];
+}
+
+/**
+ * Creates a checkbox selection model over a flattened tree, supporting tri-state checkboxes.
+ *
+ * Node relationships are indexed once, so toggling a node only visits its subtree and
+ * its ancestors. In `cascade` mode, the number of checked descendants is tracked per node,
+ * which makes `indeterminate` lookups constant-time.
+ *
+ * @template OriginItem - Original node shape of the hierarchical structure.
+ * @template ChildrenKey - Key of the removed nested children property.
+ *
+ * @param flatTree - Flat preorder list of tree nodes containing hierarchy metadata.
+ * @param nodeIdKey - Key that uniquely identifies each node.
+ * @param options - Selection mode and initially selected node ids.
+ *
+ * @returns A tree selection instance.
+ *
+ * @example
+ * ```ts
+ * const selection = createTreeSelection(flatPermissions, 'id', {
+ *   selectedNodeIds: user.permissionIds,
+ * });
+ *
+ * selection.toggle('billing');
+ *
+ * selection.getCheckState('admin'); // 'indeterminate'
+ * savePermissions(selection.getMinimalSelectedIds());
+ * ```
+ */
+export const createTreeSelection = <OriginItem extends object, ChildrenKey extends string>(
+  flatTree: HoneyTreeFlatNode<OriginItem, ChildrenKey>[],
+  nodeIdKey: KeysWithNonArrayValues<OriginItem>,
+  {
+    mode = 'cascade',
+    selectedNodeIds = [],
+  }: TreeSelectionOptions<OriginItem[KeysWithNonArrayValues<OriginItem>]> = {},
+): HoneyTreeSelection<OriginItem[KeysWithNonArrayValues<OriginItem>]> => {
+  type NodeId = OriginItem[KeysWithNonArrayValues<OriginItem>];
+
+  const nodeIds = flatTree.map(node => node[nodeIdKey as never] as NodeId);
+  const parentIdById = new Map<NodeId, NodeId | undefined>();
+  const childIdsById = new Map<NodeId, NodeId[]>();
+
+  flatTree.forEach((node, nodeIndex) => {
+    const nodeId = nodeIds[nodeIndex];
+    const parentId = isNil(node.parentId) ? undefined : node.parentId;
+
+    parentIdById.set(nodeId, parentId);
+    childIdsById.set(nodeId, []);
+
+    if (!isUndefined(parentId)) {
+      childIdsById.get(parentId)?.push(nodeId);
+    }
+  });
+
+  const checkedIds = new Set<NodeId>();
+  // Number of checked descendants per node, only maintained in `cascade` mode
+  const checkedDescendantCounts = new Map<NodeId, number>();
+
+  const assertNodeExists = (nodeId: NodeId) => {
+    assert(
+      parentIdById.has(nodeId),
+      `[@react-hive/honey-utils]: Node "${String(nodeId)}" was not found.`,
+    );
+  };
+
+  const getChildIds = (nodeId: NodeId) => childIdsById.get(nodeId) ?? [];
+
+  /**
+   * Sets the state of the whole subtree and returns the change in the number of checked nodes.
+   */
+  const setSubtreeChecked = (nodeId: NodeId, isChecked: boolean) => {
+    // Parents always precede their descendants in the collected order
+    const subtreeIds: NodeId[] = [];
+    const pendingIds = [nodeId];
+
+    while (pendingIds.length) {
+      const subtreeNodeId = pendingIds.pop() as NodeId;
+
+      subtreeIds.push(subtreeNodeId);
+      getChildIds(subtreeNodeId).forEach(childId => pendingIds.push(childId));
+    }
+
+    let checkedCountDelta = 0;
+
+    subtreeIds.reverse().forEach(subtreeNodeId => {
+      if (checkedIds.has(subtreeNodeId) !== isChecked) {
+        checkedCountDelta += isChecked ? 1 : -1;
+      }
+
+      if (isChecked) {
+        checkedIds.add(subtreeNodeId);
+      } else {
+        checkedIds.delete(subtreeNodeId);
+      }
+
+      checkedDescendantCounts.set(
+        subtreeNodeId,
+        isChecked
+          ? getChildIds(subtreeNodeId).reduce(
+              (count, childId) => count + (checkedDescendantCounts.get(childId) ?? 0) + 1,
+              0,
+            )
+          : 0,
+      );
+    });
+
+    return checkedCountDelta;
+  };
+
+  const updateAncestors = (nodeId: NodeId, checkedCountDelta: number) => {
+    let delta = checkedCountDelta;
+    let ancestorId = parentIdById.get(nodeId);
+
+    while (!isUndefined(ancestorId)) {
+      checkedDescendantCounts.set(
+        ancestorId,
+        (checkedDescendantCounts.get(ancestorId) ?? 0) + delta,
+      );
+
+      const isChecked = getChildIds(ancestorId).every(childId => checkedIds.has(childId));
+
+      if (checkedIds.has(ancestorId) !== isChecked) {
+        delta += isChecked ? 1 : -1;
+
+        if (isChecked) {
+          checkedIds.add(ancestorId);
+        } else {
+          checkedIds.delete(ancestorId);
+        }
+      }
+
+      ancestorId = parentIdById.get(ancestorId);
+    }
+  };
+
+  const initializeCascade = () => {
+    [...selectedNodeIds].forEach(nodeId => {
+      assertNodeExists(nodeId);
+      setSubtreeChecked(nodeId, true);
+    });
+
+    // In reverse preorder, children are always processed before their parents
+    [...nodeIds].reverse().forEach(nodeId => {
+      const childIds = getChildIds(nodeId);
+      if (!childIds.length) {
+        checkedDescendantCounts.set(nodeId, 0);
+        return;
+      }
+
+      if (childIds.every(childId => checkedIds.has(childId))) {
+        checkedIds.add(nodeId);
+      }
+
+      checkedDescendantCounts.set(
+        nodeId,
+        childIds.reduce(
+          (count, childId) =>
+            count + (checkedDescendantCounts.get(childId) ?? 0) + (checkedIds.has(childId) ? 1 : 0),
+          0,
+        ),
+      );
+    });
+  };
+
+  if (mode === 'cascade') {
+    initializeCascade();
+  } else {
+    [...selectedNodeIds].forEach(nodeId => {
+      assertNodeExists(nodeId);
+      checkedIds.add(nodeId);
+    });
+  }
+
+  const isChecked = (nodeId: NodeId) => checkedIds.has(nodeId);
+
+  return {
+    getCheckState: nodeId => {
+      assertNodeExists(nodeId);
+
+      if (checkedIds.has(nodeId)) {
+        return 'checked';
+      }
+
+      return mode === 'cascade' && checkedDescendantCounts.get(nodeId)
+        ? 'indeterminate'
+        : 'unchecked';
+    },
+    isChecked,
+    toggle: (nodeId, nextIsChecked = !isChecked(nodeId)) => {
+      assertNodeExists(nodeId);
+
+      if (mode === 'independent') {
+        if (nextIsChecked) {
+          checkedIds.add(nodeId);
+        } else {
+          checkedIds.delete(nodeId);
+        }
+
+        return;
+      }
+
+      updateAncestors(nodeId, setSubtreeChecked(nodeId, nextIsChecked));
+    },
+    clear: () => {
+      checkedIds.clear();
+      nodeIds.forEach(nodeId => checkedDescendantCounts.set(nodeId, 0));
+    },
+    getSelectedIds: () => nodeIds.filter(isChecked),
+    getMinimalSelectedIds: () =>
+      nodeIds.filter(nodeId => {
+        if (!isChecked(nodeId)) {
+          return false;
+        }
+
+        const parentId = parentIdById.get(nodeId);
+
+        return mode === 'independent' || isUndefined(parentId) || !isChecked(parentId);
+      }),
+  };
+};
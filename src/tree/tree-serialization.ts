@@ -0,0 +1,373 @@
+import type { KeysWithArrayValues, KeysWithNonArrayValues } from '~/types';
+import type { HoneyTreeFlatNode } from '~/tree';
+import { assert, isNil } from '~/guards';
+import { generateEphemeralId } from '~/id';
+import { flattenTree, walkTree } from '~/tree';
+
+/**
+ * A node parsed from a path list or a text outline.
+ */
+export interface HoneyTreeTextNode {
+  id: string;
+  label: string;
+  children: HoneyTreeTextNode[];
+}
+
+export interface ParseTreeTextOptions {
+  /**
+   * Returns the identifier of an already known node, e.g. by looking up the labels in an
+   * existing tree. Nodes without an identifier receive one from `generateEphemeralId`.
+   *
+   * @param labels - Labels of the node ancestors followed by the node itself, from the root down.
+   *
+   * @default undefined
+   */
+  resolveNodeId?: (labels: string[]) => string | undefined;
+}
+
+export interface TreePathsOptions {
+  /**
+   * Separator between the labels of a path.
+   *
+   * @default '/'
+   */
+  delimiter?: string;
+}
+
+export interface SerializeTreePathsOptions extends TreePathsOptions {
+  /**
+   * Whether to emit only the paths of leaf nodes, as in CSV category columns.
+   * Intermediate nodes are still recoverable from the leaf paths.
+   *
+   * @default false
+   */
+  leavesOnly?: boolean;
+}
+
+export interface SerializeTreeOutlineOptions {
+  /**
+   * Indentation added for every depth level.
+   *
+   * @default '  '
+   */
+  indent?: string;
+}
+
+const assertPathLabel = (label: string, delimiter: string) => {
+  assert(
+    !label.includes(delimiter),
+    `[@react-hive/honey-utils]: Label "${label}" contains the path delimiter "${delimiter}".`,
+  );
+};
+
+/**
+ * Returns a function creating text nodes with resolved or generated, unique identifiers.
+ */
+const createTextNodeFactory = ({ resolveNodeId }: ParseTreeTextOptions) => {
+  const nodeIds = new Set<string>();
+
+  return (labels: string[]): HoneyTreeTextNode => {
+    const id = resolveNodeId?.(labels) ?? generateEphemeralId();
+    assert(!nodeIds.has(id), `[@react-hive/honey-utils]: Duplicate node id "${id}".`);
+
+    nodeIds.add(id);
+
+    return { id, label: labels[labels.length - 1], children: [] };
+  };
+};
+
+/**
+ * Serializes a nested tree into a list of delimiter-separated label paths in preorder.
+ *
+ * @template OriginItem - Node shape of the hierarchical structure.
+ *
+ * @param items - Root-level nodes to serialize.
+ * @param labelKey - Key containing the node label.
+ * @param childrenKey - Key containing the nested child node array.
+ * @param options - Path delimiter and whether only leaf paths are emitted.
+ *
+ * @returns The label paths, e.g. `['Electronics', 'Electronics/Phones']`.
+ *
+ * @example
+ * ```ts
+ * const paths = treeToPaths(categories, 'name', 'children', { leavesOnly: true });
+ * // ['Electronics/Phones/Android', 'Electronics/Laptops']
+ * ```
+ */
+export const treeToPaths = <OriginItem extends object>(
+  items: OriginItem[] | undefined,
+  labelKey: KeysWithNonArrayValues<OriginItem>,
+  childrenKey: KeysWithArrayValues<OriginItem>,
+  { delimiter = '/', leavesOnly = false }: SerializeTreePathsOptions = {},
+): string[] => {
+  const paths: string[] = [];
+  const pathsByItem = new Map<OriginItem, string>();
+
+  walkTree(items, childrenKey, (item, { path }) => {
+    const label = String(item[labelKey]);
+    assertPathLabel(label, delimiter);
+
+    const parent = path[path.length - 1];
+    const itemPath = parent ? `${pathsByItem.get(parent)}${delimiter}${label}` : label;
+
+    pathsByItem.set(item, itemPath);
+
+    const children = item[childrenKey];
+    if (!leavesOnly || !Array.isArray(children) || !children.length) {
+      paths.push(itemPath);
+    }
+  });
+
+  return paths;
+};
+
+/**
+ * Serializes a flattened tree into a list of delimiter-separated label paths in preorder.
+ *
+ * @template OriginItem - Original node shape of the hierarchical structure.
+ * @template ChildrenKey - Key of the removed nested children property.
+ *
+ * @param flatTree - Flat preorder list of tree nodes containing hierarchy metadata.
+ * @param nodeIdKey - Key that uniquely identifies each node.
+ * @param labelKey - Key containing the node label.
+ * @param options - Path delimiter and whether only leaf paths are emitted.
+ *
+ * @returns The label paths, e.g. `['Electronics', 'Electronics/Phones']`.
+ */
+export const flatTreeToPaths = <OriginItem extends object, ChildrenKey extends string>(
+  flatTree: HoneyTreeFlatNode<OriginItem, ChildrenKey>[],
+  nodeIdKey: KeysWithNonArrayValues<OriginItem>,
+  labelKey: KeysWithNonArrayValues<OriginItem>,
+  { delimiter = '/', leavesOnly = false }: SerializeTreePathsOptions = {},
+): string[] => {
+  const pathsById = new Map<unknown, string>();
+
+  return flatTree.flatMap(node => {
+    const label = String(node[labelKey as never]);
+    assertPathLabel(label, delimiter);
+
+    const parentPath = isNil(node.parentId) ? undefined : pathsById.get(node.parentId);
+    const nodePath = isNil(parentPath) ? label : `${parentPath}${delimiter}${label}`;
+
+    pathsById.set(node[nodeIdKey as never], nodePath);
+
+    return leavesOnly && node.childCount ? [] : [nodePath];
+  });
+};
+
+/**
+ * Parses delimiter-separated label paths into a nested tree.
+ *
+ * Shared prefixes are merged into a single node, so both `['A/B', 'A/C']` and
+ * `['A', 'A/B', 'A/C']` produce the same tree. Labels are trimmed, and empty labels
+ * or lines are ignored.
+ *
+ * @param paths - Label paths, e.g. the values of a CSV category column.
+ * @param options - Path delimiter and node id resolution.
+ *
+ * @returns Root-level nodes of the parsed tree in first-seen order.
+ *
+ * @example
+ * ```ts
+ * const tree = pathsToTree(['Electronics/Phones/Android', 'Electronics/Laptops']);
+ * // [{ id: '…', label: 'Electronics', children: [{ label: 'Phones', … }, { label: 'Laptops', … }] }]
+ * ```
+ */
+export const pathsToTree = (
+  paths: string[],
+  { delimiter = '/', ...options }: TreePathsOptions & ParseTreeTextOptions = {},
+): HoneyTreeTextNode[] => {
+  const createTextNode = createTextNodeFactory(options);
+
+  const rootNodes: HoneyTreeTextNode[] = [];
+  // Child nodes by label for every created node, the root level is stored under `null`
+  const childNodesByParent = new Map<HoneyTreeTextNode | null, Map<string, HoneyTreeTextNode>>();
+
+  paths.forEach(path => {
+    const labels = path
+      .split(delimiter)
+      .map(label => label.trim())
+      .filter(Boolean);
+
+    let parentNode: HoneyTreeTextNode | null = null;
+
+    labels.forEach((label, labelIndex) => {
+      const childNodes = childNodesByParent.get(parentNode) ?? new Map<string, HoneyTreeTextNode>();
+      childNodesByParent.set(parentNode, childNodes);
+
+      let node = childNodes.get(label);
+
+      if (!node) {
+        node = createTextNode(labels.slice(0, labelIndex + 1));
+
+        childNodes.set(label, node);
+        (parentNode ? parentNode.children : rootNodes).push(node);
+      }
+
+      parentNode = node;
+    });
+  });
+
+  return rootNodes;
+};
+
+/**
+ * Parses delimiter-separated label paths into a flattened tree.
+ *
+ * @param paths - Label paths, e.g. the values of a CSV category column.
+ * @param options - Path delimiter and node id resolution.
+ *
+ * @returns A flat preorder list of tree nodes with hierarchy metadata attached.
+ */
+export const pathsToFlatTree = (
+  paths: string[],
+  options?: TreePathsOptions & ParseTreeTextOptions,
+): HoneyTreeFlatNode<HoneyTreeTextNode, 'children'>[] =>
+  flattenTree(pathsToTree(paths, options), 'id', 'children');
+
+/**
+ * Serializes a nested tree into an indentation-based text outline, one node per line.
+ *
+ * @template OriginItem - Node shape of the hierarchical structure.
+ *
+ * @param items - Root-level nodes to serialize.
+ * @param labelKey - Key containing the node label.
+ * @param childrenKey - Key containing the nested child node array.
+ * @param options - Indentation of every depth level.
+ *
+ * @returns The text outline.
+ *
+ * @example
+ * ```ts
+ * treeToOutline(categories, 'name', 'children');
+ * // Electronics
+ * //   Phones
+ * //     Android
+ * //   Laptops
+ * ```
+ */
+export const treeToOutline = <OriginItem extends object>(
+  items: OriginItem[] | undefined,
+  labelKey: KeysWithNonArrayValues<OriginItem>,
+  childrenKey: KeysWithArrayValues<OriginItem>,
+  { indent = '  ' }: SerializeTreeOutlineOptions = {},
+): string => {
+  const lines: string[] = [];
+
+  walkTree(items, childrenKey, (item, { depthLevel }) => {
+    lines.push(`${indent.repeat(depthLevel)}${String(item[labelKey])}`);
+  });
+
+  return lines.join('\n');
+};
+
+/**
+ * Serializes a flattened tree into an indentation-based text outline, one node per line.
+ *
+ * @template OriginItem - Original node shape of the hierarchical structure.
+ * @template ChildrenKey - Key of the removed nested children property.
+ *
+ * @param flatTree - Flat preorder list of tree nodes containing hierarchy metadata.
+ * @param labelKey - Key containing the node label.
+ * @param options - Indentation of every depth level.
+ *
+ * @returns The text outline.
+ */
+export const flatTreeToOutline = <OriginItem extends object, ChildrenKey extends string>(
+  flatTree: HoneyTreeFlatNode<OriginItem, ChildrenKey>[],
+  labelKey: KeysWithNonArrayValues<OriginItem>,
+  { indent = '  ' }: SerializeTreeOutlineOptions = {},
+): string =>
+  flatTree
+    .map(node => `${indent.repeat(node.depthLevel)}${String(node[labelKey as never])}`)
+    .join('\n');
+
+/**
+ * Parses an indentation-based text outline into a nested tree.
+ *
+ * Any indentation deeper than the previous line starts a new level, and a shallower line
+ * must return to the indentation of one of its ancestors. Both spaces and tabs are supported,
+ * as long as they are used consistently. Blank lines are ignored and labels are trimmed.
+ * Unlike paths, sibling lines with the same label produce separate nodes.
+ *
+ * @param outline - The text outline.
+ * @param options - Node id resolution.
+ *
+ * @returns Root-level nodes of the parsed tree.
+ *
+ * @example
+ * ```ts
+ * const tree = outlineToTree(`
+ * Electronics
+ *   Phones
+ *     Android
+ *   Laptops
+ * `);
+ * ```
+ */
+export const outlineToTree = (
+  outline: string,
+  options: ParseTreeTextOptions = {},
+): HoneyTreeTextNode[] => {
+  interface OutlineAncestor {
+    indentation: string;
+    labels: string[];
+    node: HoneyTreeTextNode;
+  }
+
+  const createTextNode = createTextNodeFactory(options);
+
+  const rootNodes: HoneyTreeTextNode[] = [];
+  // Ancestors of the current line, from the root down
+  const ancestors: OutlineAncestor[] = [];
+
+  outline.split(/\r?\n/).forEach((line, lineIndex) => {
+    const label = line.trim();
+    if (!label) {
+      return;
+    }
+
+    const indentation = line.slice(0, line.length - line.trimStart().length);
+
+    // The last removed entry is the previous sibling of the current line
+    let previousSibling: OutlineAncestor | undefined;
+
+    while (
+      ancestors.length &&
+      ancestors[ancestors.length - 1].indentation.length >= indentation.length
+    ) {
+      previousSibling = ancestors.pop();
+    }
+
+    const parent = ancestors[ancestors.length - 1];
+
+    assert(
+      previousSibling
+        ? previousSibling.indentation === indentation
+        : !parent || indentation.startsWith(parent.indentation),
+      `[@react-hive/honey-utils]: Inconsistent indentation at line ${lineIndex + 1}.`,
+    );
+
+    const labels = [...(parent?.labels ?? []), label];
+    const node = createTextNode(labels);
+
+    (parent ? parent.node.children : rootNodes).push(node);
+    ancestors.push({ indentation, labels, node });
+  });
+
+  return rootNodes;
+};
+
+/**
+ * Parses an indentation-based text outline into a flattened tree.
+ *
+ * @param outline - The text outline.
+ * @param options - Node id resolution.
+ *
+ * @returns A flat preorder list of tree nodes with hierarchy metadata attached.
+ */
+export const outlineToFlatTree = (
+  outline: string,
+  options?: ParseTreeTextOptions,
+): HoneyTreeFlatNode<HoneyTreeTextNode, 'children'>[] =>
+  flattenTree(outlineToTree(outline, options), 'id', 'children');
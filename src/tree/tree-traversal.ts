@@ -0,0 +1,428 @@
+import type { KeysWithArrayValues, Nullable } from '~/types';
+import type { HoneyTreeNestedNode } from '~/tree';
+import { isNil } from '~/guards';
+
+/**
+ * Order in which tree nodes are visited:
+ *
+ * - `pre-order` — depth-first, parents before their descendants
+ * - `post-order` — depth-first, descendants before their parents
+ * - `breadth-first` — level by level, from the roots down
+ */
+export type TreeTraversalOrder = 'pre-order' | 'post-order' | 'breadth-first';
+
+export interface TreeNodeContext<OriginItem> {
+  /**
+   * Ancestors of the node, from the root down to its parent. Empty for root nodes.
+   */
+  path: OriginItem[];
+  /**
+   * Nesting depth, where `0` represents the root level.
+   */
+  depthLevel: number;
+  /**
+   * Index of the node among its siblings.
+   */
+  index: number;
+}
+
+/**
+ * Visitor invoked for every node. Return `false` to stop the traversal, any other return value
+ * is ignored.
+ */
+export type TreeVisitor<OriginItem> = (
+  item: OriginItem,
+  context: TreeNodeContext<OriginItem>,
+) => unknown;
+
+export interface WalkTreeOptions {
+  /**
+   * Order in which nodes are visited.
+   *
+   * @default 'pre-order'
+   */
+  order?: TreeTraversalOrder;
+}
+
+interface TreeTraversalEntry<OriginItem> {
+  item: OriginItem;
+  /**
+   * Entry of the parent node. Ancestor paths are built from these links only when requested.
+   */
+  parent: Nullable<TreeTraversalEntry<OriginItem>>;
+  depthLevel: number;
+  index: number;
+}
+
+const getChildEntries = <OriginItem extends object>(
+  entry: TreeTraversalEntry<OriginItem>,
+  childrenKey: KeysWithArrayValues<OriginItem>,
+): TreeTraversalEntry<OriginItem>[] => {
+  const children = entry.item[childrenKey];
+  if (!Array.isArray(children)) {
+    return [];
+  }
+
+  return (children as OriginItem[]).map((child, index) => ({
+    item: child,
+    parent: entry,
+    depthLevel: entry.depthLevel + 1,
+    index,
+  }));
+};
+
+const getRootEntries = <OriginItem extends object>(
+  items: OriginItem[] | undefined,
+): TreeTraversalEntry<OriginItem>[] =>
+  (items ?? []).map((item, index) => ({ item, parent: null, depthLevel: 0, index }));
+
+const createNodeContext = <OriginItem>(
+  entry: TreeTraversalEntry<OriginItem>,
+): TreeNodeContext<OriginItem> => ({
+  get path() {
+    const path: OriginItem[] = [];
+
+    for (let ancestor = entry.parent; ancestor; ancestor = ancestor.parent) {
+      path.push(ancestor.item);
+    }
+
+    return path.reverse();
+  },
+  depthLevel: entry.depthLevel,
+  index: entry.index,
+});
+
+/**
+ * Iteratively visits the traversal entries of a nested tree. Stops when `visitEntry` returns `false`.
+ */
+const traverseTreeEntries = <OriginItem extends object>(
+  items: OriginItem[] | undefined,
+  childrenKey: KeysWithArrayValues<OriginItem>,
+  visitEntry: (entry: TreeTraversalEntry<OriginItem>) => unknown,
+  order: TreeTraversalOrder,
+) => {
+  const rootEntries = getRootEntries(items);
+
+  if (order === 'breadth-first') {
+    const queue = rootEntries;
+
+    for (let queueIndex = 0; queueIndex < queue.length; queueIndex++) {
+      const entry = queue[queueIndex];
+
+      if (visitEntry(entry) === false) {
+        return;
+      }
+
+      getChildEntries(entry, childrenKey).forEach(childEntry => queue.push(childEntry));
+    }
+
+    return;
+  }
+
+  if (order === 'pre-order') {
+    const stack = rootEntries.reverse();
+
+    while (stack.length) {
+      const entry = stack.pop() as TreeTraversalEntry<OriginItem>;
+
+      if (visitEntry(entry) === false) {
+        return;
+      }
+
+      const childEntries = getChildEntries(entry, childrenKey);
+
+      for (let i = childEntries.length - 1; i >= 0; i--) {
+        stack.push(childEntries[i]);
+      }
+    }
+
+    return;
+  }
+
+  // Post-order: a node is visited once all entries pushed above it are processed
+  const stack = rootEntries.reverse().map(entry => ({ entry, isExpanded: false }));
+
+  while (stack.length) {
+    const frame = stack[stack.length - 1];
+
+    if (!frame.isExpanded) {
+      frame.isExpanded = true;
+
+      const childEntries = getChildEntries(frame.entry, childrenKey);
+
+      for (let i = childEntries.length - 1; i >= 0; i--) {
+        stack.push({ entry: childEntries[i], isExpanded: false });
+      }
+      continue;
+    }
+
+    stack.pop();
+
+    if (visitEntry(frame.entry) === false) {
+      return;
+    }
+  }
+};
+
+/**
+ * Visits every node of a nested tree without flattening it first.
+ *
+ * The traversal is iterative, so arbitrarily deep trees do not overflow the call stack.
+ * Each visitor call receives the node context, including the ancestor path, and the traversal
+ * stops as soon as the visitor returns `false`.
+ *
+ * @template OriginItem - Node shape of the hierarchical structure.
+ *
+ * @param items - Root-level nodes to traverse. If undefined, nothing is visited.
+ * @param childrenKey - Key containing the nested child node array.
+ * @param visitor - Function invoked for every node.
+ * @param options - Options controlling the traversal order.
+ *
+ * @example
+ * ```ts
+ * walkTree(categories, 'children', (category, { path }) => {
+ *   console.log([...path, category].map(item => item.name).join(' / '));
+ * });
+ * ```
+ *
+ * @example
+ * ```ts
+ * // Stop as soon as a node deeper than 3 levels is found
+ * walkTree(categories, 'children', (category, { depthLevel }) => depthLevel <= 3, {
+ *   order: 'breadth-first',
+ * });
+ * ```
+ */
+export const walkTree = <OriginItem extends object>(
+  items: OriginItem[] | undefined,
+  childrenKey: KeysWithArrayValues<OriginItem>,
+  visitor: TreeVisitor<OriginItem>,
+  { order = 'pre-order' }: WalkTreeOptions = {},
+): void => {
+  traverseTreeEntries(
+    items,
+    childrenKey,
+    entry => visitor(entry.item, createNodeContext(entry)),
+    order,
+  );
+};
+
+/**
+ * Finds the first node of a nested tree that satisfies the predicate.
+ *
+ * @template OriginItem - Node shape of the hierarchical structure.
+ *
+ * @param items - Root-level nodes to search.
+ * @param childrenKey - Key containing the nested child node array.
+ * @param predicate - Function invoked for every node until it returns `true`.
+ * @param options - Options controlling the traversal order.
+ *
+ * @returns The first matching node, or `null` if none match.
+ */
+export const findInTree = <OriginItem extends object>(
+  items: OriginItem[] | undefined,
+  childrenKey: KeysWithArrayValues<OriginItem>,
+  predicate: (item: OriginItem, context: TreeNodeContext<OriginItem>) => boolean,
+  options?: WalkTreeOptions,
+): Nullable<OriginItem> => {
+  let foundItem: Nullable<OriginItem> = null;
+
+  walkTree(
+    items,
+    childrenKey,
+    (item, context) => {
+      if (predicate(item, context)) {
+        foundItem = item;
+        return false;
+      }
+    },
+    options,
+  );
+
+  return foundItem;
+};
+
+/**
+ * Reduces all nodes of a nested tree to a single accumulated value.
+ *
+ * @template OriginItem - Node shape of the hierarchical structure.
+ * @template Accumulator - The type of the accumulated result.
+ *
+ * @param items - Root-level nodes to reduce.
+ * @param childrenKey - Key containing the nested child node array.
+ * @param fn - Reducer function invoked for every node.
+ * @param initialValue - The initial accumulator value.
+ * @param options - Options controlling the traversal order.
+ *
+ * @returns The final accumulated result.
+ *
+ * @example
+ * ```ts
+ * const maxDepthLevel = reduceTree(
+ *   categories,
+ *   'children',
+ *   (result, _, { depthLevel }) => Math.max(result, depthLevel),
+ *   0,
+ * );
+ * ```
+ */
+export const reduceTree = <OriginItem extends object, Accumulator>(
+  items: OriginItem[] | undefined,
+  childrenKey: KeysWithArrayValues<OriginItem>,
+  fn: (
+    accumulator: Accumulator,
+    item: OriginItem,
+    context: TreeNodeContext<OriginItem>,
+  ) => Accumulator,
+  initialValue: Accumulator,
+  options?: WalkTreeOptions,
+): Accumulator => {
+  let accumulator = initialValue;
+
+  walkTree(
+    items,
+    childrenKey,
+    (item, context) => {
+      accumulator = fn(accumulator, item, context);
+    },
+    options,
+  );
+
+  return accumulator;
+};
+
+/**
+ * Creates a new nested tree by transforming every node, keeping the hierarchy.
+ *
+ * The mapping function receives the original node and returns the new node data. The mapped
+ * children are attached to the result under the same `childrenKey`.
+ *
+ * @template OriginItem - Node shape of the hierarchical structure.
+ * @template Result - Shape of the mapped node data.
+ * @template ChildrenKey - Key containing the nested child node array.
+ *
+ * @param items - Root-level nodes to map.
+ * @param childrenKey - Key containing the nested child node array.
+ * @param fn - Mapping function invoked for every node in pre-order.
+ *
+ * @returns Root-level nodes of the mapped tree.
+ *
+ * @example
+ * ```ts
+ * const options = mapTree(categories, 'children', category => ({
+ *   value: category.id,
+ *   label: category.name,
+ * }));
+ * ```
+ */
+export const mapTree = <
+  OriginItem extends object,
+  Result extends object,
+  ChildrenKey extends KeysWithArrayValues<OriginItem>,
+>(
+  items: OriginItem[] | undefined,
+  childrenKey: ChildrenKey,
+  fn: (item: OriginItem, context: TreeNodeContext<OriginItem>) => Result,
+): HoneyTreeNestedNode<Result, ChildrenKey>[] => {
+  type MappedNode = HoneyTreeNestedNode<Result, ChildrenKey>;
+
+  const mappedItems: MappedNode[] = [];
+  const stack = getRootEntries(items)
+    .map(entry => ({ entry, siblings: mappedItems }))
+    .reverse();
+
+  while (stack.length) {
+    const { entry, siblings } = stack.pop() as (typeof stack)[number];
+
+    const mappedItem = {
+      ...fn(entry.item, createNodeContext(entry)),
+      [childrenKey]: [],
+    } as MappedNode;
+    siblings.push(mappedItem);
+
+    const childEntries = getChildEntries(entry, childrenKey);
+
+    for (let i = childEntries.length - 1; i >= 0; i--) {
+      stack.push({ entry: childEntries[i], siblings: mappedItem[childrenKey] });
+    }
+  }
+
+  return mappedItems;
+};
+
+export interface FilterTreeOptions {
+  /**
+   * Whether to keep the full subtree of a matching node, even when its descendants do not match.
+   *
+   * @default false
+   */
+  keepDescendants?: boolean;
+}
+
+/**
+ * Creates a new nested tree containing only the nodes that satisfy the predicate,
+ * together with their ancestors so that the hierarchy stays navigable.
+ *
+ * Unlike {@link walkTree}, the predicate is called in post-order: the children of a node are
+ * checked before the node itself, because a node is kept when any of its descendants matches.
+ *
+ * @template OriginItem - Node shape of the hierarchical structure.
+ *
+ * @param items - Root-level nodes to filter.
+ * @param childrenKey - Key containing the nested child node array.
+ * @param predicate - Function invoked for every node, children before their parent.
+ * @param options - Options controlling whether descendants of matches are kept.
+ *
+ * @returns Root-level nodes of the filtered tree. Kept nodes are shallow copies with filtered children.
+ *          With `keepDescendants`, a matching node is copied as is, sharing its original children.
+ *
+ * @example
+ * ```ts
+ * const inStockTree = filterTree(categories, 'children', category => category.stock > 0);
+ * ```
+ */
+export const filterTree = <OriginItem extends object>(
+  items: OriginItem[] | undefined,
+  childrenKey: KeysWithArrayValues<OriginItem>,
+  predicate: (item: OriginItem, context: TreeNodeContext<OriginItem>) => boolean,
+  { keepDescendants = false }: FilterTreeOptions = {},
+): OriginItem[] => {
+  const filteredItems: OriginItem[] = [];
+  // Filtered children are collected per node while its descendants are processed
+  const filteredChildrenByItem = new Map<OriginItem, OriginItem[]>();
+
+  traverseTreeEntries(
+    items,
+    childrenKey,
+    entry => {
+      const { item } = entry;
+
+      const filteredChildren = filteredChildrenByItem.get(item) ?? [];
+      filteredChildrenByItem.delete(item);
+
+      const isMatch = predicate(item, createNodeContext(entry));
+      if (!isMatch && !filteredChildren.length) {
+        return;
+      }
+
+      // Nodes without a children property keep their shape
+      const filteredItem =
+        (isMatch && keepDescendants) || isNil(item[childrenKey])
+          ? { ...item }
+          : { ...item, [childrenKey]: filteredChildren };
+
+      const parent = entry.parent?.item;
+      if (parent) {
+        const parentFilteredChildren = filteredChildrenByItem.get(parent) ?? [];
+
+        parentFilteredChildren.push(filteredItem);
+        filteredChildrenByItem.set(parent, parentFilteredChildren);
+      } else {
+        filteredItems.push(filteredItem);
+      }
+    },
+    'post-order',
+  );
+
+  return filteredItems;
+};
@@ -42,3 +42,40 @@ export type HoneyTreeFlatNode<OriginItem extends object, ChildrenKey extends str
    */
   childCount: number;
 };
+
+/**
+ * Layout information of a flattened node, useful for rendering tree guide lines and for
+ * identifying a node position without looking up its ancestors.
+ *
+ * @template NodeId - Type of the node identifier.
+ */
+export interface HoneyTreeFlatNodeLayout<NodeId> {
+  /**
+   * Index of the node among its siblings.
+   */
+  index: number;
+  /**
+   * Identifiers of the node ancestors followed by the node itself, from the root down.
+   */
+  path: NodeId[];
+  /**
+   * Whether the node has no children in the flattened output.
+   */
+  isLeaf: boolean;
+  /**
+   * Whether the node is followed by a sibling, e.g. to choose between `├` and `└` guide lines.
+   */
+  hasNextSibling: boolean;
+}
+
+/**
+ * A nested node reconstructed from a flat node list.
+ *
+ * Each node keeps all fields of the flat node and receives its direct child nodes under `ChildrenKey`.
+ *
+ * @template FlatNode - Shape of the flat node (e.g. `HoneyTreeFlatNode` or an API row with `parentId`).
+ * @template ChildrenKey - Key of the property that contains nested child nodes.
+ */
+export type HoneyTreeNestedNode<FlatNode extends object, ChildrenKey extends string> = FlatNode & {
+  [Key in ChildrenKey]: HoneyTreeNestedNode<FlatNode, ChildrenKey>[];
+};